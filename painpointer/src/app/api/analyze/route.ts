@@ -1,18 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { RedditClient } from '@/lib/reddit-client';
+import { createSourceAdapters, DEFAULT_SOURCES, AVAILABLE_SOURCES, SourceDocument } from '@/lib/sources';
+import type { SubredditCandidate } from '@/lib/reddit-client';
+import { parseQueryExpansionOptions, ExpandedQuery, QueryExpansionOptions } from '@/lib/query-expansion';
 import { PainPointExtractor } from '@/lib/pain-point-extractor';
 import { GeminiAnalyzer } from '@/lib/gemini-analyzer';
-import { validateConfig } from '@/lib/config';
+import { config, validateConfig } from '@/lib/config';
 import { progressTracker } from '@/lib/progress-tracker';
+import { resolveTimeWindow, TimeWindow } from '@/lib/time-window';
+import { filterAuthors } from '@/lib/author-filter';
+import { listRulePacks } from '@/lib/rule-packs';
+import { countPainTypes, isPainType, PAIN_TYPES } from '@/lib/pain-taxonomy';
+import { ENGAGEMENT_STRATEGIES } from '@/lib/engagement';
+import { countLanguages } from '@/lib/language';
+import { FallbackLog, LLM_STEPS, resolveLlmStep } from '@/lib/llm';
+import { Redactor, redactDocuments, RedactionSummary } from '@/lib/redaction';
+import { redactionStore } from '@/lib/redaction-store';
 
 export async function POST(request: NextRequest) {
   let analysisId: string;
   
   try {
-    // Validate environment configuration
-    validateConfig();
-
-    const { searchTerm, analysisId: providedAnalysisId } = await request.json();
+    const {
+      searchTerm,
+      analysisId: providedAnalysisId,
+      sources: requestedSources,
+      timeWindow: requestedTimeWindow,
+      recencyHalfLifeDays,
+      communities,
+      queryExpansion: requestedQueryExpansion,
+      forceRefresh,
+      rulePack: requestedRulePack,
+      painTypes: painTypeFilter,
+      engagementStrategy,
+      useUpvoteRatio,
+      translate: requestedTranslate,
+    } = await request.json();
 
     if (!searchTerm || typeof searchTerm !== 'string') {
       return NextResponse.json(
@@ -21,25 +43,141 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const sources: string[] = requestedSources ?? DEFAULT_SOURCES;
+    if (!Array.isArray(sources) || sources.length === 0 || sources.some(id => !AVAILABLE_SOURCES.includes(id))) {
+      return NextResponse.json(
+        { error: `Sources must be a non-empty array of: ${AVAILABLE_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let timeWindow: TimeWindow | undefined;
+    try {
+      timeWindow = resolveTimeWindow(requestedTimeWindow);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid time window' },
+        { status: 400 }
+      );
+    }
+
+    if (recencyHalfLifeDays !== undefined && (typeof recencyHalfLifeDays !== 'number' || !(recencyHalfLifeDays > 0))) {
+      return NextResponse.json(
+        { error: 'recencyHalfLifeDays must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (communities !== undefined && (!Array.isArray(communities) || communities.some(name => typeof name !== 'string'))) {
+      return NextResponse.json(
+        { error: 'communities must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    let queryExpansion: QueryExpansionOptions | undefined;
+    try {
+      queryExpansion = parseQueryExpansionOptions(requestedQueryExpansion);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid query expansion options' },
+        { status: 400 }
+      );
+    }
+
+    if (forceRefresh !== undefined && typeof forceRefresh !== 'boolean') {
+      return NextResponse.json(
+        { error: 'forceRefresh must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const rulePack: string = requestedRulePack ?? config.rulePacks.defaultPack;
+    if (!listRulePacks().includes(rulePack)) {
+      return NextResponse.json(
+        { error: `rulePack must be one of: ${listRulePacks().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (painTypeFilter !== undefined && (!Array.isArray(painTypeFilter) || !painTypeFilter.every(isPainType))) {
+      return NextResponse.json(
+        { error: `painTypes must be an array of: ${[...PAIN_TYPES, 'other'].join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (engagementStrategy !== undefined && !ENGAGEMENT_STRATEGIES.includes(engagementStrategy)) {
+      return NextResponse.json(
+        { error: `engagementStrategy must be one of: ${ENGAGEMENT_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (useUpvoteRatio !== undefined && typeof useUpvoteRatio !== 'boolean') {
+      return NextResponse.json(
+        { error: 'useUpvoteRatio must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (requestedTranslate !== undefined && typeof requestedTranslate !== 'boolean') {
+      return NextResponse.json(
+        { error: 'translate must be a boolean' },
+        { status: 400 }
+      );
+    }
+    const translate: boolean = requestedTranslate ?? config.language.translate;
+
+    // Validate environment configuration for the selected sources
+    validateConfig(sources, LLM_STEPS.map(step => resolveLlmStep(step).provider));
+
     // Use provided analysis ID or generate one
     analysisId = providedAnalysisId || (Date.now().toString() + Math.random().toString(36).substring(2));
 
     // Initialize services
-    progressTracker.updateProgress(analysisId, 'setup', 'Initializing Reddit and AI services...', 5);
-    const redditClient = new RedditClient();
-    const geminiAnalyzer = new GeminiAnalyzer();
+    progressTracker.updateProgress(analysisId, 'setup', 'Initializing source and AI services...', 5);
+    const adapters = createSourceAdapters(sources);
+    // LLM steps record here whenever they fall back to keyword-based or local output
+    const llmFallbacks = new FallbackLog();
+    const geminiAnalyzer = new GeminiAnalyzer(llmFallbacks);
+    const sourceNames = adapters.map(adapter => adapter.name).join(', ');
 
-    // Step 1: Scrape Reddit for posts
-    progressTracker.updateProgress(analysisId, 'searching', 'Launching comprehensive Reddit search...', 10);
-    console.log(`Starting analysis for: ${searchTerm}`);
+    // Step 1: Fetch documents from every selected source
+    progressTracker.updateProgress(analysisId, 'searching', `Launching comprehensive search on ${sourceNames}...`, 10);
+    console.log(`Starting analysis for: ${searchTerm} (sources: ${sources.join(', ')})`);
     
-    const posts = await redditClient.getPostsWithComments(searchTerm);
-    console.log(`Found ${posts.length} posts`);
+    const fetchResults = await Promise.allSettled(adapters.map(adapter => adapter.fetchDocuments(searchTerm, { analysisId, timeWindow, communities, queryExpansion, forceRefresh, llmFallbacks })));
+    const fetchedDocuments: SourceDocument[] = [];
+    const subreddits: SubredditCandidate[] = [];
+    const queries: ExpandedQuery[] = [];
+    fetchResults.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        fetchedDocuments.push(...result.value.documents);
+        subreddits.push(...(result.value.subreddits || []));
+        queries.push(...(result.value.queries || []));
+      } else {
+        console.warn(`⚠️ Source ${adapters[index].id} failed:`, result.reason);
+      }
+    });
+
+    // Drop bot and throwaway content and collapse repeat posts so one author doesn't read as many
+    const { documents: filteredDocuments, report: authorFilter } = filterAuthors(fetchedDocuments);
+
+    // Replace PII with placeholders before anything reaches an LLM or the response; originals stay server-side
+    let documents = filteredDocuments;
+    let redaction: RedactionSummary = { enabled: false, counts: {} };
+    if (config.redaction.enabled) {
+      const redactor = new Redactor();
+      documents = redactDocuments(filteredDocuments, redactor);
+      redaction = { ...redactor.getSummary(), reviewId: redactionStore.save(redactor.getMapping()) };
+    }
+    console.log(`Found ${documents.length} documents`);
     
-    progressTracker.updateProgress(analysisId, 'searching', `Found ${posts.length} posts across Reddit`, 35, 
-      posts.length > 100 ? 'Excellent data coverage!' : posts.length > 50 ? 'Good data coverage' : 'Limited data found');
+    progressTracker.updateProgress(analysisId, 'searching', `Found ${documents.length} posts across ${sourceNames}`, 35, 
+      documents.length > 100 ? 'Excellent data coverage!' : documents.length > 50 ? 'Good data coverage' : 'Limited data found');
 
-    if (posts.length === 0) {
+    if (documents.length === 0) {
       progressTracker.updateProgress(analysisId, 'complete', 'No posts found for analysis', 100);
       setTimeout(() => progressTracker.cleanup(analysisId), 30000);
       return NextResponse.json({
@@ -49,6 +187,14 @@ export async function POST(request: NextRequest) {
         searchTerm,
         analyzedAt: new Date(),
         topCategories: [],
+        sources,
+        timeWindow,
+        subreddits,
+        queries,
+        authorFilter,
+        redaction,
+        rulePack,
+        fallbacks: llmFallbacks.getEntries(),
         message: 'No posts found for this search term. Try a different search term or check if it\'s spelled correctly.',
       });
     }
@@ -56,13 +202,45 @@ export async function POST(request: NextRequest) {
 
     // Step 2: Extract pain points (keyword/pattern)
     progressTracker.updateProgress(analysisId, 'extracting', 'Extracting pain points from posts...', 50);
-    const initialPainPoints = PainPointExtractor.extractPainPoints(posts);
+    const communitySizes = Object.fromEntries(subreddits.map(subreddit => [subreddit.name.toLowerCase(), subreddit.subscribers]));
+    const initialPainPoints = PainPointExtractor.extractPainPoints(documents, {
+      recencyHalfLifeDays,
+      rulePack,
+      engagementStrategy,
+      useUpvoteRatio,
+      communitySizes,
+    });
     console.log(`Extracted ${initialPainPoints.length} candidate pain points`);
 
     // Step 2b: AI relevance filtering
     progressTracker.updateProgress(analysisId, 'extracting', 'Filtering pain points for relevance with AI...', 55);
-    const painPoints = await PainPointExtractor.aiFilterRelevantPainPoints(initialPainPoints, searchTerm);
-    console.log(`AI kept ${painPoints.length} relevant pain points`);
+    const aiRelevantPainPoints = await PainPointExtractor.aiFilterRelevantPainPoints(initialPainPoints, searchTerm, llmFallbacks);
+    console.log(`AI kept ${aiRelevantPainPoints.length} relevant pain points`);
+
+    // Optional translation, before pain types are counted so rule-based types are rescored in English
+    const languages = countLanguages(aiRelevantPainPoints);
+    if (translate && Object.keys(languages).some(language => language !== 'en')) {
+      progressTracker.updateProgress(analysisId, 'extracting', 'Translating non-English complaints...', 58);
+    }
+    const relevantPainPoints = translate
+      ? await PainPointExtractor.translateToEnglish(aiRelevantPainPoints, llmFallbacks)
+      : aiRelevantPainPoints;
+    const translated = relevantPainPoints.filter(point => point.translated).length;
+    if (translated > 0) {
+      console.log(`🌐 Translated ${translated} pain points to English`);
+    }
+
+    // Pain-type counts cover every relevant pain point, so clients can see what a type filter would leave out
+    const painTypes = countPainTypes(relevantPainPoints);
+    const flaggedPainPoints = relevantPainPoints
+      .filter(point => point.safetyFlags.length > 0)
+      .map(point => ({ id: point.id, content: point.content, flags: point.safetyFlags }));
+    if (flaggedPainPoints.length > 0) {
+      console.log(`⚠️ ${flaggedPainPoints.length} pain points flagged for suspicious LLM handling`);
+    }
+    const painPoints = painTypeFilter
+      ? relevantPainPoints.filter(point => painTypeFilter.includes(point.painType.type))
+      : relevantPainPoints;
 
     progressTracker.updateProgress(analysisId, 'extracting', `Identified ${painPoints.length} relevant pain points`, 60,
       painPoints.length > 20 ? 'Rich complaint data found' : painPoints.length > 10 ? 'Moderate complaints found' : 'Few complaints detected');
@@ -77,6 +255,19 @@ export async function POST(request: NextRequest) {
         searchTerm,
         analyzedAt: new Date(),
         topCategories: [],
+        sources,
+        timeWindow,
+        subreddits,
+        queries,
+        authorFilter,
+        redaction,
+        rulePack,
+        painTypes,
+        painTypeFilter,
+        flaggedPainPoints,
+        languages,
+        translated,
+        fallbacks: llmFallbacks.getEntries(),
         message: 'No relevant complaints or pain points found in the posts. The discussions might be mostly positive or off-topic.',
       });
     }
@@ -91,7 +282,13 @@ export async function POST(request: NextRequest) {
 
     // Step 4: AI categorization and analysis
     progressTracker.updateProgress(analysisId, 'categorizing', 'AI is categorizing and analyzing complaints...', 80);
-    const analysisResult = await geminiAnalyzer.categorizePainPoints(finalPainPoints, searchTerm);
+    // Only analyses over the default scope are comparable run to run, so narrowed ones stay out of the topic's history
+    const scoped = (requestedSources !== undefined && sources.join(',') !== DEFAULT_SOURCES.join(','))
+      || rulePack !== config.rulePacks.defaultPack
+      || translate !== config.language.translate
+      || [timeWindow, communities, queryExpansion, painTypeFilter, engagementStrategy, recencyHalfLifeDays, useUpvoteRatio]
+        .some(option => option !== undefined);
+    const analysisResult = await geminiAnalyzer.categorizePainPoints(finalPainPoints, searchTerm, { scoped });
 
     progressTracker.updateProgress(analysisId, 'summarizing', 'Generating AI summaries for each category...', 90);
     console.log(`Analysis complete: ${analysisResult.categories.length} categories created`);
@@ -104,6 +301,19 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       ...analysisResult,
+      sources,
+      timeWindow,
+      subreddits,
+      queries,
+      authorFilter,
+      redaction,
+      rulePack,
+      painTypes,
+      painTypeFilter,
+      flaggedPainPoints,
+      languages,
+      translated,
+      fallbacks: llmFallbacks.getEntries(),
       analysisId
     });
 
@@ -144,7 +354,7 @@ export async function POST(request: NextRequest) {
 // Health check endpoint
 export async function GET() {
   try {
-    validateConfig();
+    validateConfig(undefined, LLM_STEPS.map(step => resolveLlmStep(step).provider));
     return NextResponse.json({ 
       status: 'healthy', 
       timestamp: new Date().toISOString(),
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as crypto from 'crypto';
+import { config } from '@/lib/config';
+import { redactionStore } from '@/lib/redaction-store';
+
+// Reviewer access to the originals behind redaction placeholders
+export async function GET(request: NextRequest) {
+  const reviewToken = config.redaction.reviewToken;
+  if (!reviewToken) {
+    return NextResponse.json(
+      { error: 'Redaction review is disabled' },
+      { status: 404 }
+    );
+  }
+
+  const provided = Buffer.from(request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '');
+  const expected = Buffer.from(reviewToken);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const reviewId = searchParams.get('id');
+
+  if (!reviewId) {
+    return NextResponse.json(
+      { error: 'Redaction review ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const mapping = redactionStore.get(reviewId);
+
+  if (!mapping) {
+    return NextResponse.json(
+      { error: 'No redactions found for this review ID' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ reviewId, mapping });
+}
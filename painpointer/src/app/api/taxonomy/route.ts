@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { taxonomyStore } from '@/lib/taxonomy-store';
+
+// A topic's saved categories and per-run counts, for tracking categories over time
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const topic = searchParams.get('topic');
+
+  if (!topic || !topic.trim()) {
+    return NextResponse.json(
+      { error: 'Topic is required' },
+      { status: 400 }
+    );
+  }
+
+  const taxonomy = taxonomyStore.get(topic);
+
+  if (!taxonomy) {
+    return NextResponse.json(
+      { error: 'No saved taxonomy for this topic' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(taxonomy);
+}
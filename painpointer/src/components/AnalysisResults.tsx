@@ -1,8 +1,10 @@
 'use client';
 
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import { Calendar, MessageSquare, ThumbsUp, ExternalLink, TrendingUp } from 'lucide-react';
+import { Calendar, MessageSquare, ThumbsUp, ExternalLink, TrendingUp, Flame, ShieldAlert } from 'lucide-react';
 import { AnalysisResult, PainPointCategory } from '@/lib/gemini-analyzer';
+import { PAIN_TYPE_LABELS, PainType } from '@/lib/pain-taxonomy';
+import { LANGUAGE_NAMES } from '@/lib/language';
 
 interface AnalysisResultsProps {
   result: AnalysisResult;
@@ -23,6 +25,17 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
     color: COLORS[index % COLORS.length],
   }));
 
+  // Aspects ordered by how many complaints mention them. Total covers every category, so mentions in
+  // categories without a column of their own are shown under "Other" and the row adds up.
+  const aspectRows = Object.entries(result.aspectCategoryCounts || {})
+    .map(([aspect, counts]) => {
+      const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+      const shown = result.topCategories.reduce((sum, category) => sum + (counts[category.id] || 0), 0);
+      return [aspect, counts, total - shown, total] as const;
+    })
+    .sort((a, b) => b[3] - a[3]);
+  const hasOtherAspects = aspectRows.some(([, , other]) => other > 0);
+
   const formatDate = (date: string | Date) => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -114,6 +127,59 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
             </div>
           </div>
         </div>
+
+        {result.fallbacks && result.fallbacks.length > 0 && (
+          <div className="mt-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-200">
+            <p className="flex items-center font-medium">
+              <ShieldAlert className="w-4 h-4 mr-1" />
+              Parts of this analysis used fallback output instead of AI results:
+            </p>
+            <ul className="mt-1 list-disc list-inside">
+              {result.fallbacks.map((fallback, index) => (
+                <li key={index} title={fallback.reason}>
+                  {fallback.step}: {fallback.fallback}{fallback.items ? ` (${fallback.items} items)` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result.painTypes && Object.keys(result.painTypes).length > 0 && (
+          <div className="mt-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+              Pain types{result.painTypeFilter ? ` (analysis limited to ${result.painTypeFilter.map(type => PAIN_TYPE_LABELS[type]).join(', ')})` : ''}:
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.entries(result.painTypes) as Array<[PainType, number]>)
+                .sort(([, a], [, b]) => b - a)
+                .map(([type, count]) => (
+                  <span
+                    key={type}
+                    className="px-3 py-1 text-xs bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-full"
+                  >
+                    {PAIN_TYPE_LABELS[type]} · {count}
+                  </span>
+                ))}
+            </div>
+          </div>
+        )}
+
+        {result.subreddits && result.subreddits.length > 0 && (
+          <div className="mt-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">Subreddits searched (by relevance):</p>
+            <div className="flex flex-wrap gap-2">
+              {result.subreddits.map((subreddit) => (
+                <span
+                  key={subreddit.name}
+                  title={`${subreddit.subscribers.toLocaleString()} subscribers · suggested by ${subreddit.origins.join(', ')}`}
+                  className="px-3 py-1 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-full"
+                >
+                  r/{subreddit.name} · {Math.round(subreddit.relevanceScore * 100)}%
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Pie Chart */}
@@ -145,6 +211,39 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
         </div>
       )}
 
+      {/* Aspect x Category Breakdown */}
+      {aspectRows.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 overflow-x-auto">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-6">
+            Aspect Breakdown
+          </h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="pr-4 pb-2 font-medium">Aspect</th>
+                {result.topCategories.map((category) => (
+                  <th key={category.id} className="px-2 pb-2 font-medium text-right">{category.name}</th>
+                ))}
+                {hasOtherAspects && <th className="px-2 pb-2 font-medium text-right">Other</th>}
+                <th className="pl-4 pb-2 font-medium text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-700 dark:text-gray-300">
+              {aspectRows.map(([aspect, counts, other, total]) => (
+                <tr key={aspect} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="pr-4 py-1 capitalize">{aspect}</td>
+                  {result.topCategories.map((category) => (
+                    <td key={category.id} className="px-2 py-1 text-right">{counts[category.id] || ''}</td>
+                  ))}
+                  {hasOtherAspects && <td className="px-2 py-1 text-right">{other || ''}</td>}
+                  <td className="pl-4 py-1 text-right font-semibold">{total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Categories List */}
       <div className="space-y-6">
         <h3 className="text-xl font-bold text-gray-900 dark:text-white">
@@ -152,7 +251,14 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
         </h3>
         
         {result.topCategories.map((category, index) => (
-          <CategoryCard key={category.id} category={category} rank={index + 1} color={COLORS[index % COLORS.length]} />
+          <CategoryCard
+            key={category.id}
+            category={category}
+            rank={index + 1}
+            color={COLORS[index % COLORS.length]}
+            previousCount={result.taxonomy?.previousRun ? result.taxonomy.previousRun.counts[category.id] ?? 0 : undefined}
+            isNew={!!result.taxonomy?.previousRun && result.taxonomy.newCategoryIds.includes(category.id)}
+          />
         ))}
       </div>
     </div>
@@ -163,9 +269,11 @@ interface CategoryCardProps {
   category: PainPointCategory;
   rank: number;
   color: string;
+  previousCount?: number; // Count in the topic's previous run, when there is one
+  isNew?: boolean; // First seen in this run
 }
 
-function CategoryCard({ category, rank, color }: CategoryCardProps) {
+function CategoryCard({ category, rank, color, previousCount, isNew }: CategoryCardProps) {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden">
       <div className="p-6">
@@ -192,6 +300,21 @@ function CategoryCard({ category, rank, color }: CategoryCardProps) {
               {category.count}
             </p>
             <p className="text-sm text-gray-500 dark:text-gray-400">complaints</p>
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              from {category.uniqueAuthors} {category.uniqueAuthors === 1 ? 'author' : 'authors'}
+            </p>
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              {Math.round(category.averageIntensity * 100)}% avg intensity
+            </p>
+            {isNew ? (
+              <p className="text-xs font-medium text-blue-500">New since last run</p>
+            ) : previousCount !== undefined && (
+              <p className="text-xs text-gray-400 dark:text-gray-500">
+                {category.count === previousCount
+                  ? 'unchanged since last run'
+                  : `${category.count > previousCount ? '+' : ''}${category.count - previousCount} since last run`}
+              </p>
+            )}
           </div>
         </div>
 
@@ -203,6 +326,14 @@ function CategoryCard({ category, rank, color }: CategoryCardProps) {
           </p>
         </div>
 
+        {/* Pain type breakdown */}
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          {(Object.entries(category.painTypes) as Array<[PainType, number]>)
+            .sort(([, a], [, b]) => b - a)
+            .map(([type, count]) => `${PAIN_TYPE_LABELS[type]} ${count}`)
+            .join(' · ')}
+        </p>
+
         {/* Sample Pain Points */}
         <div>
           <h5 className="font-semibold text-gray-900 dark:text-white mb-3">
@@ -211,19 +342,58 @@ function CategoryCard({ category, rank, color }: CategoryCardProps) {
           <div className="space-y-2">
             {category.painPoints.slice(0, 3).map((painPoint) => (
               <div key={painPoint.id} className="border-l-4 border-gray-200 dark:border-gray-600 pl-4">
-                <p className="text-sm text-gray-700 dark:text-gray-300 mb-1">
+                <p className="text-sm text-gray-700 dark:text-gray-300 mb-1" title={`Matched ${painPoint.matchedRules.join(', ')}`}>
                   &quot;{painPoint.content}&quot;
                 </p>
+                {painPoint.sourceText.length > painPoint.content.length && (
+                  <details className="mb-1">
+                    <summary className="text-xs text-blue-500 cursor-pointer">Show in context</summary>
+                    <p className="mt-1 text-xs text-gray-600 dark:text-gray-400 whitespace-pre-line max-h-48 overflow-y-auto">
+                      {painPoint.sourceText.slice(0, painPoint.span.start)}
+                      <mark className="bg-yellow-200 dark:bg-yellow-700 dark:text-white">
+                        {painPoint.sourceText.slice(painPoint.span.start, painPoint.span.end)}
+                      </mark>
+                      {painPoint.sourceText.slice(painPoint.span.end)}
+                    </p>
+                  </details>
+                )}
+                {painPoint.translated && (
+                  <details className="mb-1">
+                    <summary className="text-xs text-blue-500 cursor-pointer">Translated from {LANGUAGE_NAMES[painPoint.language]}</summary>
+                    <p className="mt-1 text-xs text-gray-600 dark:text-gray-400 whitespace-pre-line">{painPoint.originalText}</p>
+                  </details>
+                )}
                 <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 space-x-4">
-                  <span className="flex items-center">
+                  <span
+                    className="flex items-center"
+                    title={`Engagement ${painPoint.engagementScore} (${painPoint.engagement.strategy}): raw ${painPoint.engagement.raw} / baseline ${painPoint.engagement.baseline}, recency ×${painPoint.engagement.recency}, upvote ratio ×${painPoint.engagement.upvoteRatio}`}
+                  >
                     <ThumbsUp className="w-3 h-3 mr-1" />
                     {painPoint.score}
                   </span>
+                  <span className="flex items-center" title="Negative intensity from local sentiment scoring">
+                    <Flame className="w-3 h-3 mr-1" />
+                    {Math.round(painPoint.sentiment.intensity * 100)}%
+                  </span>
                   <span className="flex items-center">
                     <MessageSquare className="w-3 h-3 mr-1" />
                     {painPoint.num_comments}
                   </span>
-                  <span>r/{painPoint.subreddit}</span>
+                  <span title={`Classified by ${painPoint.painType.origin === 'llm' ? 'AI' : 'rules'}`}>
+                    {PAIN_TYPE_LABELS[painPoint.painType.type]}
+                  </span>
+                  {painPoint.duplicateCount > 0 && (
+                    <span title="Near-duplicate crossposts, reposts and quotes merged into this complaint">
+                      +{painPoint.duplicateCount} similar
+                    </span>
+                  )}
+                  {painPoint.safetyFlags.length > 0 && (
+                    <span className="flex items-center text-amber-600" title={`Flagged: ${painPoint.safetyFlags.join(', ')}`}>
+                      <ShieldAlert className="w-3 h-3 mr-1" />
+                      Unverified
+                    </span>
+                  )}
+                  <span>{painPoint.sourceId.startsWith('reddit') ? `r/${painPoint.subreddit}` : painPoint.subreddit}</span>
                   <a
                     href={painPoint.url}
                     target="_blank"
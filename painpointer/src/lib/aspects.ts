@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import { config } from './config';
+
+// Product aspects (battery, camera, billing, ...) each complaint targets, from dictionaries with an LLM fallback
+
+export type AspectDictionary = Record<string, string[]>; // Aspect -> terms that mention it
+
+const DEFAULT_ASPECT_DICTIONARY: AspectDictionary = {
+  battery: ['battery', 'batteries', 'charge', 'charging', 'charger', 'battery life', 'drain'],
+  display: ['screen', 'display', 'brightness', 'pixel', 'touchscreen', 'resolution'],
+  camera: ['camera', 'photo', 'photos', 'picture', 'lens', 'video recording'],
+  audio: ['speaker', 'speakers', 'microphone', 'mic', 'audio', 'sound', 'headphone jack'],
+  connectivity: ['wifi', 'wi-fi', 'bluetooth', 'signal', 'reception', 'network', 'cellular', '5g', 'lte'],
+  software: ['software', 'update', 'firmware', 'os', 'operating system'],
+  app: ['app', 'application', 'mobile app', 'ios app', 'android app'],
+  'account & login': ['account', 'login', 'log in', 'sign in', 'password', '2fa', 'logged out'],
+  'build quality': ['build quality', 'plastic', 'hinge', 'button', 'buttons', 'material', 'scratch', 'crack', 'cracked'],
+  delivery: ['delivery', 'shipping', 'shipped', 'package', 'courier', 'arrived', 'delayed'],
+  billing: ['billing', 'bill', 'charged', 'invoice', 'payment', 'subscription', 'refund', 'price', 'pricing'],
+  'customer support': ['customer service', 'support', 'agent', 'representative', 'warranty', 'service center'],
+  documentation: ['documentation', 'docs', 'manual', 'instructions', 'tutorial'],
+};
+
+let loadedDictionary: AspectDictionary | undefined;
+const termPatterns = new Map<string, RegExp>();
+
+/**
+ * Defaults merged with the optional JSON file at ASPECT_DICTIONARY_PATH (file aspects replace default ones)
+ */
+export function getAspectDictionary(): AspectDictionary {
+  if (loadedDictionary) return loadedDictionary;
+
+  loadedDictionary = DEFAULT_ASPECT_DICTIONARY;
+  if (config.aspects.dictionaryPath) {
+    try {
+      const fileDictionary = JSON.parse(fs.readFileSync(config.aspects.dictionaryPath, 'utf8')) as AspectDictionary;
+      loadedDictionary = { ...DEFAULT_ASPECT_DICTIONARY, ...fileDictionary };
+    } catch (error) {
+      console.error(`Failed to load aspect dictionary from ${config.aspects.dictionaryPath}:`, error);
+    }
+  }
+  return loadedDictionary;
+}
+
+function termPattern(term: string): RegExp {
+  let pattern = termPatterns.get(term);
+  if (!pattern) {
+    pattern = new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+    termPatterns.set(term, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Aspects whose dictionary terms appear in the text
+ */
+export function tagAspects(text: string): string[] {
+  return Object.entries(getAspectDictionary())
+    .filter(([, terms]) => terms.some(term => termPattern(term).test(text)))
+    .map(([aspect]) => aspect);
+}
+
+/**
+ * Ask the LLM for aspects of items the dictionaries found nothing in. `suggestAspects` gets the texts
+ * and the known aspect names and returns one aspect list per text.
+ */
+export async function fillMissingAspects<T extends { content: string; aspects: string[] }>(
+  items: T[],
+  suggestAspects: (texts: string[], knownAspects: string[]) => Promise<string[][]>
+): Promise<T[]> {
+  const untagged = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.aspects.length === 0)
+    .slice(0, config.aspects.maxLlmPainPoints);
+  if (!config.aspects.llmFallback || untagged.length === 0) return items;
+
+  try {
+    const suggestions = await suggestAspects(untagged.map(({ item }) => item.content), Object.keys(getAspectDictionary()));
+    const result = [...items];
+    untagged.forEach(({ item, index }, i) => {
+      const aspects = (suggestions[i] || [])
+        .filter((aspect): aspect is string => typeof aspect === 'string' && aspect.trim().length > 0)
+        .map(aspect => aspect.trim().toLowerCase())
+        .slice(0, 3);
+      result[index] = { ...item, aspects };
+    });
+    return result;
+  } catch (error) {
+    console.error('Error suggesting aspects, keeping dictionary aspects only:', error);
+    return items;
+  }
+}
+
+/**
+ * Aspect -> category id -> pain point count
+ */
+export function countAspectsByCategory(categories: Array<{ id: string; painPoints: Array<{ aspects: string[] }> }>): Record<string, Record<string, number>> {
+  const counts: Record<string, Record<string, number>> = {};
+  for (const category of categories) {
+    for (const point of category.painPoints) {
+      for (const aspect of point.aspects) {
+        counts[aspect] = counts[aspect] || {};
+        counts[aspect][category.id] = (counts[aspect][category.id] || 0) + 1;
+      }
+    }
+  }
+  return counts;
+}
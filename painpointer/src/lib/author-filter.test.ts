@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { countUniqueAuthors, filterAuthors, isBotAuthor, isThrowawayAuthor } from './author-filter';
+import { SourceDocument } from './sources';
+
+const LONG_BODY = 'The battery drains from full to empty overnight even with every background app closed.';
+
+function doc(id: string, author: string, overrides: Partial<SourceDocument> = {}): SourceDocument {
+  return {
+    id, source: 'reddit', title: 'Battery drain after the update', body: LONG_BODY, score: 1, commentCount: 0,
+    url: `https://example.com/${id}`, community: 'android', timestamp: 0, author, ...overrides,
+  };
+}
+
+describe('isBotAuthor', () => {
+  it.each(['AutoModerator', 'remindmebot', 'stats_bot', 'bot-helper', 'RepostCheckerBot'])('flags %s', author => {
+    expect(isBotAuthor(author)).toBe(true);
+  });
+
+  it.each(['Talbot', 'robot_fan', 'abbott', '[deleted]'])('keeps %s', author => {
+    expect(isBotAuthor(author)).toBe(false);
+  });
+});
+
+describe('isThrowawayAuthor', () => {
+  it('flags throwaway-style names only', () => {
+    expect(isThrowawayAuthor('throwaway_8812')).toBe(true);
+    expect(isThrowawayAuthor('tmp42')).toBe(true);
+    expect(isThrowawayAuthor('tempest')).toBe(false);
+  });
+});
+
+describe('countUniqueAuthors', () => {
+  it('ignores case and leaves deleted accounts out', () => {
+    expect(countUniqueAuthors(['Alice', 'alice', 'bob', '[deleted]', '[removed]'])).toBe(2);
+  });
+});
+
+describe('filterAuthors', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('drops bot content, including bot replies', () => {
+    const { documents, report } = filterAuthors([
+      doc('1', 'alice', { replies: [{ id: 'c1', body: 'Reminder set', score: 1, timestamp: 0, author: 'RemindMeBot' }] }),
+      doc('2', 'AutoModerator', { title: 'Weekly thread' }),
+    ]);
+    expect(documents.map(d => d.id)).toEqual(['1']);
+    expect(documents[0].replies).toEqual([]);
+    expect(report.bots).toBe(2);
+  });
+
+  it('keeps the most engaged copy of a brigade', () => {
+    const { documents, report } = filterAuthors([
+      doc('1', 'alice'), doc('2', 'bob', { score: 50 }), doc('3', 'carol'),
+    ]);
+    expect(documents.map(d => d.id)).toEqual(['2']);
+    expect(report.brigaded).toBe(2);
+  });
+
+  it('keeps one copy of an author repeating a post across communities', () => {
+    const { documents, report } = filterAuthors([doc('1', 'alice'), doc('2', 'alice', { community: 'pixel' })]);
+    expect(documents).toHaveLength(1);
+    expect(report.repeatPosts).toBe(1);
+  });
+
+  it('never collapses short posts without a body', () => {
+    const posts = ['alice', 'bob', 'carol'].map((author, i) => doc(String(i), author, { title: 'Battery drain?', body: '' }));
+    const { documents, report } = filterAuthors(posts);
+    expect(documents).toHaveLength(3);
+    expect(report.brigaded).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { config } from './config';
+import { SourceDocument, SourceReply } from './sources';
+
+// Author-level filtering: bots, throwaways, copy-paste brigades and cross-community repeat posts
+
+export interface AuthorFilterReport {
+  bots: number; // Documents and replies written by bots
+  throwaways: number; // Documents and replies written by throwaway accounts
+  repeatPosts: number; // Extra copies of one author's complaint posted to several communities
+  brigaded: number; // Extra copies of the same text posted by several different authors
+}
+
+const DELETED_AUTHORS = new Set(['[deleted]', '[removed]', '']);
+
+const THROWAWAY_PATTERN = /throw[-_]?a?way|^(ta|tmp|temp|burner)[-_]?\d*$/i;
+
+// "bot" as a separate name part (bot_x, x-bot, x_bot_y) or a camel-case suffix (RemindMeBot); not "Talbot" or "robot".
+// Lowercase bot names without a separator are left to config.authorFilter.knownBots.
+const BOT_PART_PATTERN = /^bot[-_]|[-_]bot([-_]|$)/i;
+const BOT_SUFFIX_PATTERN = /[a-z0-9]Bot$/;
+
+export function isKnownAuthor(author: string): boolean {
+  return !DELETED_AUTHORS.has(author);
+}
+
+export function isBotAuthor(author: string): boolean {
+  if (!isKnownAuthor(author)) return false;
+  const lower = author.toLowerCase();
+  return config.authorFilter.knownBots.some(bot => bot.toLowerCase() === lower) ||
+    BOT_PART_PATTERN.test(author) || BOT_SUFFIX_PATTERN.test(author);
+}
+
+export function isThrowawayAuthor(author: string): boolean {
+  return isKnownAuthor(author) && THROWAWAY_PATTERN.test(author);
+}
+
+/**
+ * Distinct authors behind a set of pain points; deleted accounts can't be told apart, so they aren't counted
+ */
+export function countUniqueAuthors(authors: string[]): number {
+  return new Set(authors.filter(isKnownAuthor).map(author => author.toLowerCase())).size;
+}
+
+/**
+ * Drop bot and throwaway content, then collapse repeat posts and brigades to their most engaged copy
+ */
+export function filterAuthors(documents: SourceDocument[]): { documents: SourceDocument[]; report: AuthorFilterReport } {
+  const report: AuthorFilterReport = { bots: 0, throwaways: 0, repeatPosts: 0, brigaded: 0 };
+
+  const isExcluded = (author: string): boolean => {
+    if (isBotAuthor(author)) {
+      report.bots++;
+      return true;
+    }
+    if (config.authorFilter.dropThrowaways && isThrowawayAuthor(author)) {
+      report.throwaways++;
+      return true;
+    }
+    return false;
+  };
+
+  const filterReplies = (replies: SourceReply[]): SourceReply[] => replies
+    .filter(reply => !isExcluded(reply.author))
+    .map(reply => ({ ...reply, replies: reply.replies && filterReplies(reply.replies) }));
+
+  const kept = documents
+    .filter(doc => !isExcluded(doc.author))
+    .map(doc => ({ ...doc, replies: doc.replies && filterReplies(doc.replies) }));
+
+  // Group copies of the same text, most engaged first, so the first copy in each group is the one kept
+  const engagement = (doc: SourceDocument) => doc.score + doc.commentCount;
+  const groups = new Map<string, SourceDocument[]>();
+  for (const doc of [...kept].sort((a, b) => engagement(b) - engagement(a))) {
+    const key = contentKey(doc);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), doc]);
+  }
+
+  const dropped = new Set<SourceDocument>();
+  for (const copies of groups.values()) {
+    const authors = countUniqueAuthors(copies.map(doc => doc.author));
+    if (authors >= config.authorFilter.brigadeMinAuthors) {
+      copies.slice(1).forEach(doc => dropped.add(doc));
+      report.brigaded += copies.length - 1;
+      continue;
+    }
+
+    // One author repeating themselves across communities
+    const seenAuthors = new Set<string>();
+    for (const doc of copies) {
+      const author = doc.author.toLowerCase();
+      if (!isKnownAuthor(doc.author)) continue;
+      if (seenAuthors.has(author)) {
+        dropped.add(doc);
+        report.repeatPosts++;
+      }
+      seenAuthors.add(author);
+    }
+  }
+
+  const total = report.bots + report.throwaways + report.repeatPosts + report.brigaded;
+  if (total > 0) {
+    console.log(`🤖 Author filter removed ${report.bots} bot, ${report.throwaways} throwaway, ${report.repeatPosts} repeat and ${report.brigaded} brigaded items`);
+  }
+
+  return { documents: kept.filter(doc => !dropped.has(doc)), report };
+}
+
+/**
+ * Normalized title + opening of the body; crossposts and copy-pasted complaints share it. Empty when there is
+ * too little text to tell a copy from independent short posts ("Battery drain?" with no body).
+ */
+function contentKey(doc: SourceDocument): string {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const title = normalize(doc.title);
+  const body = normalize(doc.body).substring(0, 200);
+  if (title.length + body.length < config.authorFilter.minCopyLength) return '';
+  return `${title}|${body}`;
+}
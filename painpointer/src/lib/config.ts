@@ -1,3 +1,7 @@
+import type { EngagementStrategy } from './engagement';
+import type { Language } from './language';
+import type { LlmProviderId, LlmStep, LlmStepConfig } from './llm/types';
+
 export const config = {
   reddit: {
     clientId: process.env.REDDIT_CLIENT_ID!,
@@ -9,22 +13,133 @@ export const config = {
   gemini: {
     apiKey: process.env.GEMINI_API_KEY!,
   },
+  llm: {
+    provider: (process.env.LLM_PROVIDER || 'gemini') as LlmProviderId, // 'gemini' | 'openai-compatible' | 'mock' | 'none' (no LLM at all)
+    model: process.env.LLM_MODEL, // Model for steps on the default provider (the provider's default model when unset)
+    steps: {} as Partial<Record<LlmStep, LlmStepConfig>>, // Per-step provider/model, e.g. { categorization: { model: 'gemini-2.5-pro' } }
+    stepsJson: process.env.LLM_STEPS, // JSON with the same shape as steps, applied on top of it
+    maxRepairAttempts: 2, // Times an invalid JSON response is sent back to the model with its validation error
+    openAiCompatible: {
+      baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1', // Ollama's default; llama.cpp serves on :8080/v1
+      apiKey: process.env.OPENAI_API_KEY, // Not needed by most local servers
+      timeoutMs: 120000,
+    },
+  },
+  hackerNews: {
+    apiUrl: process.env.HACKER_NEWS_API_URL || 'https://hn.algolia.com/api/v1',
+    maxStories: 100, // Stories requested per Hacker News search
+  },
+  queryExpansion: {
+    configPath: process.env.QUERY_EXPANSION_CONFIG, // Optional JSON file with aliases, templates and exclusions
+    maxQueries: 16, // Maximum expanded queries per analysis
+    llmSynonyms: false, // Ask the LLM for extra names for the term unless a request says otherwise
+  },
+  archive: {
+    submissionsPath: process.env.REDDIT_ARCHIVE_SUBMISSIONS!, // Pushshift submissions dump (.jsonl or .zst)
+    commentsPath: process.env.REDDIT_ARCHIVE_COMMENTS, // Optional matching comments dump
+  },
+  scheduler: {
+    concurrency: 4, // Reddit requests in flight at once
+    bucketSize: 10, // Burst size before throttling kicks in
+    refillPerSecond: 1.5, // Sustained rate until Reddit's rate-limit headers say otherwise
+    maxRetries: 3, // Retries on 429/5xx/timeouts
+    baseBackoffMs: 1000, // First retry delay, doubled on each attempt
+    requestTimeoutMs: 20000, // Per-request timeout
+  },
+  redaction: {
+    enabled: process.env.PAINPOINTER_REDACTION !== 'off', // Redact PII before any LLM call or response
+    detectors: ['email', 'credit-card', 'phone', 'ip-address', 'order-number', 'username'], // Applied in this order
+    customDetectors: [] as Array<{ type: string; pattern: string }>, // Extra regexes, e.g. { type: 'VIN', pattern: '\\b[A-HJ-NPR-Z0-9]{17}\\b' }
+    storeDir: process.env.PAINPOINTER_REDACTION_DIR, // Holds original PII; set it to a private directory. Defaults to the shared <tmpdir>/painpointer-redactions
+    retentionDays: 7, // Mappings are deleted after this many days
+    reviewToken: process.env.REDACTION_REVIEW_TOKEN, // Bearer token for /api/redactions; the endpoint is off when unset
+  },
+  rulePacks: {
+    dir: process.env.RULE_PACK_DIR, // Extra .json/.yaml rule packs, loaded alongside the built-in ones in src/rules
+    defaultPack: 'default', // Pack used when an analysis doesn't pick one
+  },
+  language: {
+    default: 'en' as Language, // Assumed when a text is too short to tell
+    translate: process.env.PAINPOINTER_TRANSLATE === 'on', // Translate non-English pain points before categorization unless a request says otherwise
+  },
+  authorFilter: {
+    knownBots: ['AutoModerator', 'RemindMeBot', 'sneakpeekbot', 'WikiTextBot', 'RepostSleuthBot', 'SaveVideo', 'haikusbot'],
+    dropThrowaways: true, // Drop content from throwaway accounts (e.g. "throwaway_8812")
+    brigadeMinAuthors: 3, // The same text from this many different authors is treated as a brigade
+    minCopyLength: 60, // Shorter title + body text is never treated as a repeat or brigade copy
+  },
+  engagement: {
+    defaultStrategy: 'raw' as EngagementStrategy, // 'raw' | 'median' | 'subscribers'; 'raw' keeps the original ranking
+    normalizedScale: 10, // Score a typical post or comment of its community gets under the normalized strategies
+  },
+  categorization: {
+    chunkSize: 50, // Pain points per categorization prompt; larger analyses are categorized chunk by chunk
+    maxCategories: 10, // Final categories once chunk categories are merged
+    mergeBatchSize: 100, // Chunk categories per merge prompt; more are merged in rounds
+  },
+  taxonomy: {
+    enabled: process.env.PAINPOINTER_TAXONOMY !== 'off', // Map each topic's analyses onto its saved categories
+    dir: process.env.PAINPOINTER_TAXONOMY_DIR || 'taxonomies',
+    maxCategories: 50, // Once a topic has this many categories, pain points that fit none stay uncategorized
+    maxRuns: 104, // Run history kept per topic (two years of weekly runs)
+  },
+  localClustering: {
+    maxClusters: 10, // Upper bound when k is chosen automatically
+    sampleSize: 400, // Pain points used to choose k (silhouette scoring is quadratic)
+    maxIterations: 25, // k-means iterations per run
+    seed: 42, // Fixed seed, so the same pain points always cluster the same way
+    minLabelSimilarity: 0.15, // Cosine similarity a text needs to be matched to a saved category without an LLM
+  },
+  aspects: {
+    dictionaryPath: process.env.ASPECT_DICTIONARY_PATH, // JSON file of aspect -> terms, merged over the defaults
+    llmFallback: true, // Ask the LLM for aspects of pain points no dictionary term matched
+    maxLlmPainPoints: 50, // Cap on pain points sent for LLM aspect tagging per analysis
+  },
+  duplicates: {
+    similarityThreshold: 0.6, // Word-shingle Jaccard similarity at which two pain points are the same complaint
+    containmentThreshold: 0.8, // Share of the shorter text found in the longer one (quoted replies, edited crossposts)
+  },
+  cache: {
+    dir: process.env.PAINPOINTER_CACHE_DIR, // Defaults to <tmpdir>/painpointer-cache
+    ttlMinutes: 60, // Cached searches younger than this are reused as-is
+    fullRefreshHours: 24, // Older full fetches are refetched instead of refreshed incrementally, so scores and comment counts catch up
+    retentionDays: 30, // Older entries are deleted instead of refreshed incrementally
+  },
+  fixtures: {
+    mode: process.env.PAINPOINTER_FIXTURE_MODE || 'off', // 'off' | 'record' | 'replay'
+    dir: process.env.PAINPOINTER_FIXTURE_DIR || 'fixtures',
+  },
   app: {
     maxPosts: 300, // Maximum posts to collect from all searches combined
     maxSubreddits: 8, // Maximum subreddits to search
+    allowNsfwSubreddits: false, // Whether NSFW subreddits may be selected for searching
     maxComments: 20, // Maximum comments per post to analyze
+    maxCommentPosts: 25, // Top posts (by engagement) whose comment trees are fetched
+    maxCommentDepth: 3, // Maximum reply depth to walk in a comment tree
+    maxMoreCommentsExpansions: 3, // "Load more comments" expansions per post
+    maxSpanLength: 300, // Characters of complaint text (best sentence plus context) kept per pain point
   },
 };
 
-export const validateConfig = () => {
+export const validateConfig = (sources: string[] = ['reddit'], llmProviders: LlmProviderId[] = [config.llm.provider]) => {
   const missing = [];
   
-  if (!config.reddit.clientId) missing.push('REDDIT_CLIENT_ID');
-  if (!config.reddit.clientSecret) missing.push('REDDIT_CLIENT_SECRET');
-  if (!config.reddit.userAgent) missing.push('REDDIT_USER_AGENT');
-  if (!config.reddit.username) missing.push('REDDIT_USERNAME');
-  if (!config.reddit.password) missing.push('REDDIT_PASSWORD');
-  if (!config.gemini.apiKey) missing.push('GEMINI_API_KEY');
+  // Replayed runs serve recorded fixtures and never reach the live APIs
+  if (config.fixtures.mode === 'replay') return;
+
+  // Reddit credentials are only needed when Reddit is one of the selected sources
+  if (sources.includes('reddit')) {
+    if (!config.reddit.clientId) missing.push('REDDIT_CLIENT_ID');
+    if (!config.reddit.clientSecret) missing.push('REDDIT_CLIENT_SECRET');
+    if (!config.reddit.userAgent) missing.push('REDDIT_USER_AGENT');
+    if (!config.reddit.username) missing.push('REDDIT_USERNAME');
+    if (!config.reddit.password) missing.push('REDDIT_PASSWORD');
+  }
+  if (sources.includes('reddit-archive') && !config.archive.submissionsPath) {
+    missing.push('REDDIT_ARCHIVE_SUBMISSIONS');
+  }
+  // Only steps running on Gemini need its key, so local and mock runs work without one
+  if (llmProviders.includes('gemini') && !config.gemini.apiKey) missing.push('GEMINI_API_KEY');
   
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
@@ -0,0 +1,87 @@
+import { config } from './config';
+import { recencyWeight } from './time-window';
+
+// Engagement scoring normalized against each community's typical activity
+
+export const ENGAGEMENT_STRATEGIES = ['raw', 'median', 'subscribers'] as const;
+
+// raw: score + 2 * comments, unnormalized (large communities dominate)
+// median: relative to the median engagement of the same community in the fetched sample
+// subscribers: relative to community size, falling back to the sample median when the size is unknown
+export type EngagementStrategy = typeof ENGAGEMENT_STRATEGIES[number];
+
+export interface EngagementOptions {
+  engagementStrategy?: EngagementStrategy; // Config default when unset
+  recencyHalfLifeDays?: number; // Engagement halves every N days of age (no decay when unset)
+  useUpvoteRatio?: boolean; // Scale by the share of upvotes, so controversial posts count for less
+  communitySizes?: Record<string, number>; // Lowercase community name -> subscribers, for the 'subscribers' strategy
+}
+
+export interface EngagementInput {
+  community: string;
+  kind: 'post' | 'comment'; // Posts and comments are normalized against separate baselines
+  score: number;
+  comments: number;
+  timestamp: number; // Unix seconds
+  upvoteRatio?: number;
+}
+
+export interface EngagementComponents {
+  strategy: EngagementStrategy;
+  raw: number; // score + 2 * comments
+  baseline: number; // Typical raw engagement the item is compared against (1 for 'raw')
+  recency: number; // Time-decay multiplier (1 without decay)
+  upvoteRatio: number; // Upvote-ratio multiplier (1 when unused or unknown)
+  score: number; // Final engagement score
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Build a scorer whose baselines come from the full sample, so every item is scored against the same reference
+ */
+export function createEngagementScorer(samples: EngagementInput[], options: EngagementOptions = {}): (input: EngagementInput) => EngagementComponents {
+  const strategy = options.engagementStrategy ?? config.engagement.defaultStrategy;
+  const raw = (input: EngagementInput) => input.score + input.comments * 2;
+  const sampleKey = (input: EngagementInput) => `${input.kind}:${input.community.toLowerCase()}`;
+
+  const samplesByCommunity = new Map<string, number[]>();
+  for (const sample of samples) {
+    const values = samplesByCommunity.get(sampleKey(sample)) || [];
+    values.push(raw(sample));
+    samplesByCommunity.set(sampleKey(sample), values);
+  }
+  const sampleBaselines = new Map(Array.from(samplesByCommunity.entries()).map(([key, values]) => [key, Math.max(1, median(values))]));
+
+  const baselineFor = (input: EngagementInput): number => {
+    if (strategy === 'raw') return 1;
+    const subscribers = options.communitySizes?.[input.community.toLowerCase()];
+    if (strategy === 'subscribers' && subscribers) {
+      // Square root keeps huge communities from flattening everything; comments get a smaller share of attention
+      return Math.max(1, Math.sqrt(subscribers) / (input.kind === 'post' ? 10 : 40));
+    }
+    return sampleBaselines.get(sampleKey(input)) ?? 1;
+  };
+
+  return (input: EngagementInput) => {
+    const baseline = baselineFor(input);
+    const recency = recencyWeight(input.timestamp, options.recencyHalfLifeDays);
+    const upvoteRatio = options.useUpvoteRatio && input.upvoteRatio !== undefined ? input.upvoteRatio : 1;
+    // Normalized scores are scaled so a typical item lands near config.engagement.normalizedScale
+    const scale = strategy === 'raw' ? 1 : config.engagement.normalizedScale;
+    const score = (raw(input) / baseline) * scale * recency * upvoteRatio;
+
+    return {
+      strategy,
+      raw: raw(input),
+      baseline: Math.round(baseline * 100) / 100,
+      recency: Math.round(recency * 1000) / 1000,
+      upvoteRatio,
+      score: Math.round(score * 100) / 100,
+    };
+  };
+}
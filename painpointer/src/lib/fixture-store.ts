@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { config } from './config';
+import type { LlmProvider } from './llm/types';
+
+// Record/replay of external traffic (Reddit searches, LLM calls) for offline, reproducible runs
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+interface Fixture<T> {
+  kind: string;
+  request: unknown;
+  response: T;
+  recordedAt: string;
+}
+
+class FixtureStore {
+  readonly mode: FixtureMode;
+  private fixtureDir: string;
+
+  constructor() {
+    const mode = config.fixtures.mode;
+    this.mode = mode === 'record' || mode === 'replay' ? mode : 'off';
+    this.fixtureDir = path.resolve(config.fixtures.dir);
+
+    if (this.mode !== 'off') {
+      console.log(`📼 Fixture ${this.mode} mode using ${this.fixtureDir}`);
+    }
+  }
+
+  /**
+   * Run a live call, recording its response or serving a recorded one depending on mode
+   */
+  async run<T>(kind: string, request: unknown, live: () => Promise<T>): Promise<T> {
+    if (this.mode === 'off') {
+      return live();
+    }
+
+    const filePath = this.getFilePath(kind, request);
+
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`No recorded ${kind} fixture for request ${this.stableStringify(request)}`);
+      }
+      const fixture = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Fixture<T>;
+      return fixture.response;
+    }
+
+    const response = await live();
+    const fixture: Fixture<T> = { kind, request, response, recordedAt: new Date().toISOString() };
+
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2));
+    } catch (error) {
+      console.error(`Failed to record ${kind} fixture:`, error);
+    }
+
+    return response;
+  }
+
+  /**
+   * Wrap an LLM provider so every prompt/response goes through the store, filed under the provider id
+   */
+  wrapProvider(provider: LlmProvider): LlmProvider {
+    return {
+      id: provider.id,
+      model: provider.model,
+      generate: (prompt: string) => this.run(provider.id, { model: provider.model, prompt }, () => provider.generate(prompt)),
+    };
+  }
+
+  private getFilePath(kind: string, request: unknown): string {
+    const hash = crypto.createHash('sha256').update(this.stableStringify(request)).digest('hex').substring(0, 24);
+    return path.join(this.fixtureDir, kind, `${hash}.json`);
+  }
+
+  /**
+   * JSON with sorted object keys so equivalent requests hash identically
+   */
+  private stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${this.stableStringify((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
+
+// Export a singleton instance
+export const fixtureStore = new FixtureStore();
@@ -1,6 +1,56 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { config } from './config';
+import { createLlmProvider, FallbackLog, generateStructured, isLlmStepEnabled, keyedResults, LlmFallback, LlmProvider, LLM_STEPS, resolveLlmStep, schema } from './llm';
+import { fixtureStore } from './fixture-store';
+import { TimeWindow } from './time-window';
+import type { SubredditCandidate } from './reddit-client';
+import type { ExpandedQuery } from './query-expansion';
 import { PainPoint } from './pain-point-extractor';
+import { countUniqueAuthors, AuthorFilterReport } from './author-filter';
+import { countPainTypes, PainType } from './pain-taxonomy';
+import { countAspectsByCategory, fillMissingAspects } from './aspects';
+import type { RedactionSummary } from './redaction';
+import { formatDataBlock, SafetyFlag, sanitizeUntrusted, UNTRUSTED_DATA_NOTICE } from './prompt-safety';
+import type { Language } from './language';
+import { clusterTexts, extractiveSummary, matchLabels } from './local-clustering';
+import { normalizeTopic, TaxonomyCategory, TaxonomyRun, taxonomyStore } from './taxonomy-store';
+
+const aspectItem = schema.object({
+  id: schema.integer(),
+  aspects: schema.array(schema.string()),
+});
+
+const taxonomyItem = schema.object({
+  id: schema.integer(),
+  categoryId: schema.optional(schema.string()), // null when no saved category fits
+});
+
+const mergeResponse = schema.object({
+  categories: schema.array(schema.object({
+    name: schema.string(),
+    description: schema.string(),
+    categoryIds: schema.array(schema.integer()),
+  })),
+});
+
+// A category before statistics are computed; indexes point into the pain points being categorized
+interface DraftCategory {
+  name: string;
+  description: string;
+  indexes: number[];
+}
+
+const categorizationResponse = schema.object({
+  categories: schema.refine(
+    schema.array(schema.object({
+      name: schema.string(),
+      description: schema.string(),
+      painPointIndexes: schema.array(schema.integer()),
+    })),
+    categories => categories.length === 0 ? 'must contain at least one category' : undefined
+  ),
+});
+
+const UNCATEGORIZED_ID = 'uncategorized';
 
 export interface PainPointCategory {
   id: string;
@@ -8,32 +58,69 @@ export interface PainPointCategory {
   description: string;
   painPoints: PainPoint[];
   count: number;
+  uniqueAuthors: number; // Distinct authors behind the pain points, so one prolific poster doesn't read as many
   averageEngagement: number;
+  averageIntensity: number; // Mean negative intensity (0-1) of the pain points, from local sentiment scoring
+  painTypes: Partial<Record<PainType, number>>; // Pain points per taxonomy type within this category
   summary: string;
 }
 
+export interface TaxonomyReport {
+  topic: string; // Normalized search term the taxonomy is saved under
+  newCategoryIds: string[]; // Categories this run added to the topic's taxonomy
+  previousRun?: TaxonomyRun; // The topic's previous recorded run, for comparing counts (recorded runs only)
+  notRecordedReason?: string; // Why this run was left out of the topic's history, if it was
+}
+
+export interface CategorizationOptions {
+  scoped?: boolean; // Filtered or narrowed analysis (time window, sources, pain types, ...): maps onto the taxonomy but isn't recorded
+}
+
 export interface AnalysisResult {
   categories: PainPointCategory[];
   totalPainPoints: number;
   searchTerm: string;
   analyzedAt: Date;
-  topCategories: PainPointCategory[]; // Top 10 by count
+  topCategories: PainPointCategory[]; // Top 10 by count, weighted by complaint intensity
   message?: string; // Optional message for empty results
+  sources?: string[]; // Source adapters the analysis drew from
+  timeWindow?: TimeWindow; // Window posts were restricted to, if any
+  subreddits?: SubredditCandidate[]; // Subreddits searched, with relevance scores
+  queries?: ExpandedQuery[]; // Expanded queries used, with the posts each contributed
+  authorFilter?: AuthorFilterReport; // Bot, throwaway, repeat and brigaded content removed before extraction
+  redaction?: RedactionSummary; // PII placeholders applied before LLM calls (originals are kept server-side)
+  rulePack?: string; // Rule pack used to detect complaints
+  painTypes?: Partial<Record<PainType, number>>; // Relevant pain points per taxonomy type, before any type filter
+  painTypeFilter?: PainType[]; // Types the analysis was restricted to, if any
+  aspectCategoryCounts?: Record<string, Record<string, number>>; // Aspect -> category id -> pain point count
+  flaggedPainPoints?: Array<{ id: string; content: string; flags: SafetyFlag[] }>; // Items whose LLM handling looked suspicious
+  languages?: Partial<Record<Language, number>>; // Relevant pain points per detected language
+  translated?: number; // Pain points machine-translated to English before categorization
+  fallbacks?: LlmFallback[]; // LLM steps that failed validation and used keyword-based or local output instead
+  taxonomy?: TaxonomyReport; // How this run relates to the topic's saved categories, when taxonomies are enabled
 }
 
 export class GeminiAnalyzer {
-  private genAI: GoogleGenerativeAI;
-  private model: any; // eslint-disable-line @typescript-eslint/no-explicit-any
-
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+  private aspectLlm: LlmProvider;
+  private taxonomyLlm: LlmProvider;
+  private categorizationLlm: LlmProvider;
+  private mergeLlm: LlmProvider;
+  private summaryLlm: LlmProvider;
+  private fallbacks?: FallbackLog;
+
+  constructor(fallbacks?: FallbackLog) {
+    this.fallbacks = fallbacks;
+    this.aspectLlm = createLlmProvider('aspects');
+    this.taxonomyLlm = createLlmProvider('taxonomy');
+    this.categorizationLlm = createLlmProvider('categorization');
+    this.mergeLlm = createLlmProvider('merging');
+    this.summaryLlm = createLlmProvider('summaries');
   }
 
   /**
-   * Categorize pain points using Gemini AI
+   * Categorize pain points using the configured LLM
    */
-  async categorizePainPoints(painPoints: PainPoint[], searchTerm: string): Promise<AnalysisResult> {
+  async categorizePainPoints(painPoints: PainPoint[], searchTerm: string, options: CategorizationOptions = {}): Promise<AnalysisResult> {
     if (painPoints.length === 0) {
       return {
         categories: [],
@@ -44,65 +131,363 @@ export class GeminiAnalyzer {
       };
     }
 
-    // Group pain points into batches for analysis
-    const categories = await this.performCategorization(painPoints, searchTerm);
+    // Tag aspects the dictionaries missed before grouping, so categories carry complete aspect counts
+    const taggedPainPoints = !isLlmStepEnabled('aspects') ? painPoints : await fillMissingAspects(painPoints, async (texts, knownAspects) => {
+      try {
+        return await this.suggestAspects(texts, knownAspects);
+      } catch (error) {
+        this.fallbacks?.record('aspects', 'dictionary aspects only', error, texts.length);
+        throw error;
+      }
+    });
+
+    // Map onto the topic's saved categories first, so category ids stay comparable across runs
+    const useTaxonomy = config.taxonomy.enabled && !this.isSyntheticRun();
+    const taxonomy = useTaxonomy ? taxonomyStore.get(searchTerm) : undefined;
+    const categories = await this.performCategorization(taggedPainPoints, searchTerm, taxonomy?.categories || []);
     
     // Generate summaries for each category
     const categoriesWithSummaries = await this.generateCategorySummaries(categories);
     
-    // Sort categories by count and get top 10
+    // Rank categories by count weighted by intensity, so a few furious complaints can outrank many mild wishes.
+    // Uncategorized is a leftover bucket, not a pain point theme, so it stays in categories but isn't ranked.
     const topCategories = categoriesWithSummaries
-      .sort((a, b) => b.count - a.count)
+      .sort((a, b) => this.calculateRankScore(b) - this.calculateRankScore(a))
+      .filter(category => category.id !== UNCATEGORIZED_ID)
       .slice(0, 10);
 
+    const analyzedAt = new Date();
     return {
       categories: categoriesWithSummaries,
       totalPainPoints: painPoints.length,
       searchTerm,
-      analyzedAt: new Date(),
+      analyzedAt,
       topCategories,
+      aspectCategoryCounts: countAspectsByCategory(categoriesWithSummaries),
+      taxonomy: !useTaxonomy ? undefined : options.scoped
+        ? { topic: normalizeTopic(searchTerm), newCategoryIds: [], notRecordedReason: 'the analysis was filtered or narrowed' }
+        : this.recordTaxonomyRun(searchTerm, categoriesWithSummaries, analyzedAt),
+    };
+  }
+
+  /**
+   * Mock and replayed runs produce canned categories, so they neither read nor write saved taxonomies
+   */
+  private isSyntheticRun(): boolean {
+    return fixtureStore.mode === 'replay' || LLM_STEPS.some(step => resolveLlmStep(step).provider === 'mock');
+  }
+
+  /**
+   * Save the categories this run added and its counts to the topic's taxonomy
+   */
+  private recordTaxonomyRun(searchTerm: string, categories: PainPointCategory[], analyzedAt: Date): TaxonomyReport {
+    // Saved categories are skipped by recordRun, including any a concurrent run saved since this one started
+    const candidates = categories
+      .filter(category => category.id !== UNCATEGORIZED_ID)
+      .map(({ id, name, description }) => ({ id, name, description }));
+    const { taxonomy: updated, added } = taxonomyStore.recordRun(searchTerm, candidates, {
+      analyzedAt: analyzedAt.toISOString(),
+      totalPainPoints: categories.reduce((sum, category) => sum + category.count, 0),
+      counts: Object.fromEntries(categories.map(category => [category.id, category.count])),
+    });
+    console.log(`🗂️ Taxonomy for "${updated.topic}": ${updated.categories.length} categories, ${added.length} new`);
+    return {
+      topic: updated.topic,
+      newCategoryIds: added.map(category => category.id),
+      previousRun: updated.runs.length > 1 ? updated.runs[updated.runs.length - 2] : undefined, // This run is the last one
     };
   }
 
   /**
-   * Perform AI-powered categorization
+   * Ask the LLM which product aspects each complaint targets
+   */
+  private async suggestAspects(texts: string[], knownAspects: string[]): Promise<string[][]> {
+    const prompt = `
+For each complaint item below, list the product aspects or components it is about (at most 3).
+Prefer these aspect names when they fit: ${knownAspects.join(', ')}.
+Otherwise use a short lowercase noun phrase. Use an empty list when no specific aspect is mentioned.
+${UNTRUSTED_DATA_NOTICE}
+
+COMPLAINTS:
+${formatDataBlock(texts.map((text, index) => ({ id: index, text })))}
+
+RESPONSE FORMAT (return as JSON, exactly one result per item id):
+{ "results": [{ "id": 0, "aspects": ["battery"] }, { "id": 1, "aspects": ["app", "account & login"] }, { "id": 2, "aspects": [] }] }
+
+Return only the JSON response, no additional text.
+`;
+
+    const ids = texts.map((_, index) => index);
+    const { results } = await generateStructured(this.aspectLlm, prompt, schema.object({ results: keyedResults(aspectItem, ids) }));
+    const aspectsById = new Map(results.map(result => [result.id, result.aspects]));
+    return ids.map(id => aspectsById.get(id)!);
+  }
+
+  /**
+   * Pain points that fit a saved taxonomy category keep its id. The rest are categorized map-reduce style: each
+   * chunk on its own, then similar chunk categories are merged. Anything no category claimed goes into an explicit
+   * Uncategorized bucket.
+   */
+  private async performCategorization(painPoints: PainPoint[], searchTerm: string, saved: TaxonomyCategory[]): Promise<PainPointCategory[]> {
+    const savedAssignments = saved.length > 0
+      ? await this.mapToTaxonomy(painPoints, saved, searchTerm)
+      : painPoints.map(() => undefined);
+    const remaining = painPoints.map((_, index) => index).filter(index => savedAssignments[index] === undefined);
+    // A full taxonomy takes no new categories, so the rest stays uncategorized
+    const drafts = remaining.length > 0 && saved.length < config.taxonomy.maxCategories
+      ? await this.proposeCategories(remaining.map(index => painPoints[index]), searchTerm)
+      : [];
+
+    const members = new Map<string, number[]>(saved.map(category => [category.id, []]));
+    savedAssignments.forEach((id, index) => {
+      if (id !== undefined) members.get(id)!.push(index);
+    });
+    // A proposed category named like a saved one is that category
+    const savedByName = new Map(saved.map(category => [this.generateCategoryId(category.name), category]));
+    const newDrafts: DraftCategory[] = [];
+    for (const draft of drafts) {
+      const indexes = draft.indexes.map(index => remaining[index]);
+      const match = savedByName.get(this.generateCategoryId(draft.name));
+      if (match) {
+        members.get(match.id)!.push(...indexes);
+      } else {
+        newDrafts.push({ ...draft, indexes });
+      }
+    }
+
+    const categories: PainPointCategory[] = [];
+    const assigned = new Set<number>();
+    const takenIds = new Set([UNCATEGORIZED_ID, ...saved.map(category => category.id)]);
+    const addCategory = (name: string, description: string, indexes: number[], id?: string) => {
+      // Each pain point at most once, so a steered response can't inflate a category
+      const unique = indexes.filter(index => !assigned.has(index));
+      unique.forEach(index => assigned.add(index));
+      if (unique.length === 0) return;
+      const categoryId = id ?? this.uniqueCategoryId(name, takenIds);
+      takenIds.add(categoryId);
+      categories.push(this.createCategory(categoryId, name, description, unique.map(index => painPoints[index])));
+    };
+    // Saved categories keep their id, name and description
+    saved.forEach(category => addCategory(category.name, category.description, members.get(category.id)!, category.id));
+    newDrafts.forEach(draft => addCategory(draft.name, draft.description, draft.indexes));
+
+    const unassigned = painPoints.filter((_, index) => !assigned.has(index));
+    if (unassigned.length > 0) {
+      console.log(`📦 ${unassigned.length} pain points left uncategorized`);
+      categories.push({
+        ...this.createCategory(UNCATEGORIZED_ID, 'Uncategorized', 'Pain points no category claimed', unassigned),
+        summary: `${unassigned.length} complaints that did not fit any category`,
+      });
+    }
+
+    return categories;
+  }
+
+  /**
+   * Assign pain points to saved taxonomy categories chunk by chunk; undefined where none fits.
+   * Without the LLM, pain points are matched to category names and descriptions by TF-IDF similarity.
+   */
+  private async mapToTaxonomy(painPoints: PainPoint[], saved: TaxonomyCategory[], searchTerm: string): Promise<Array<string | undefined>> {
+    const matchLocally = (points: PainPoint[]) => matchLabels(
+      points.map(point => point.content),
+      saved.map(category => `${category.name} ${category.description}`),
+      { excludeTerms: [searchTerm] }
+    ).map(index => index === -1 ? undefined : saved[index].id);
+    if (!isLlmStepEnabled('taxonomy')) return matchLocally(painPoints);
+
+    const { chunkSize } = config.categorization;
+    const assignments: Array<string | undefined> = [];
+    for (let start = 0; start < painPoints.length; start += chunkSize) {
+      const chunk = painPoints.slice(start, start + chunkSize);
+      try {
+        assignments.push(...await this.mapChunkToTaxonomy(chunk, saved, searchTerm));
+      } catch (error) {
+        console.error('Error mapping onto saved categories:', error);
+        this.fallbacks?.record('taxonomy', 'local matching', error, chunk.length);
+        assignments.push(...matchLocally(chunk));
+      }
+    }
+    return assignments;
+  }
+
+  /**
+   * Ask the LLM which saved category each pain point of a chunk belongs to
+   */
+  private async mapChunkToTaxonomy(chunk: PainPoint[], saved: TaxonomyCategory[], searchTerm: string): Promise<Array<string | undefined>> {
+    const prompt = `
+You are an expert at analyzing customer complaints. Earlier analyses of complaints about "${searchTerm}" produced
+the categories below. Assign each complaint to the category it clearly belongs to, or to null if none fits well.
+Do not stretch a category to cover a complaint about something else; unassigned complaints get new categories.
+${UNTRUSTED_DATA_NOTICE}
+
+SAVED CATEGORIES (id: name: description):
+${saved.map(category => `- ${category.id}: ${sanitizeUntrusted(category.name)}: ${sanitizeUntrusted(category.description)}`).join('\n')}
+
+COMPLAINTS:
+${formatDataBlock(chunk.map((point, index) => ({ id: index, text: point.content })))}
+
+RESPONSE FORMAT (return as JSON, exactly one result per item id):
+{ "results": [{ "id": 0, "categoryId": "${saved[0].id}" }, { "id": 1, "categoryId": null }] }
+
+Return only the JSON response, no additional text.
+`;
+
+    const ids = chunk.map((_, index) => index);
+    const savedIds = new Set(saved.map(category => category.id));
+    const responseSchema = schema.object({
+      results: schema.refine(keyedResults(taxonomyItem, ids), results => {
+        const unknown = results
+          .map(result => result.categoryId)
+          .filter((id): id is string => id !== undefined && !savedIds.has(id));
+        return unknown.length ? `refers to unknown category ids ${unknown.join(', ')}` : undefined;
+      }),
+    });
+    const { results } = await generateStructured(this.taxonomyLlm, prompt, responseSchema);
+    const categoryById = new Map(results.map(result => [result.id, result.categoryId]));
+    return ids.map(id => categoryById.get(id));
+  }
+
+  /**
+   * Propose categories for pain points no saved category claimed, chunk by chunk with a merge when there is more
+   * than one chunk. With the categorization step disabled, all of them are clustered locally in one pass instead.
+   * Indexes refer to the given pain points.
+   */
+  private async proposeCategories(painPoints: PainPoint[], searchTerm: string): Promise<DraftCategory[]> {
+    if (!isLlmStepEnabled('categorization')) return this.capCategories(this.localCategorization(painPoints, searchTerm));
+
+    const { chunkSize } = config.categorization;
+    const drafts: DraftCategory[] = [];
+    for (let start = 0; start < painPoints.length; start += chunkSize) {
+      const chunkDrafts = await this.categorizeChunk(painPoints.slice(start, start + chunkSize), searchTerm);
+      drafts.push(...chunkDrafts.map(draft => ({ ...draft, indexes: draft.indexes.map(index => index + start) })));
+    }
+    // A single chunk's categories are already final
+    return this.capCategories(painPoints.length > chunkSize ? await this.mergeDrafts(drafts) : drafts);
+  }
+
+  /**
+   * Keep the config.categorization.maxCategories largest categories. The pain points of the rest end up in
+   * Uncategorized, so an unmerged fallback can't fan out into dozens of categories and summary calls.
+   */
+  private capCategories(drafts: DraftCategory[]): DraftCategory[] {
+    const { maxCategories } = config.categorization;
+    if (drafts.length <= maxCategories) return drafts;
+    console.log(`📦 Folding ${drafts.length - maxCategories} smallest categories into Uncategorized`);
+    return [...drafts].sort((a, b) => b.indexes.length - a.indexes.length).slice(0, maxCategories);
+  }
+
+  /**
+   * Categorize one chunk with the LLM, falling back to local clustering. Indexes are chunk-local.
    */
-  private async performCategorization(painPoints: PainPoint[], searchTerm: string): Promise<PainPointCategory[]> {
-    // Create a comprehensive list of pain point texts
-    const painPointTexts = painPoints.map((point, index) => ({
+  private async categorizeChunk(chunk: PainPoint[], searchTerm: string): Promise<DraftCategory[]> {
+    const prompt = this.buildCategorizationPrompt(chunk.map((point, index) => ({
       index,
       text: point.content,
       engagement: point.engagementScore,
-    }));
+    })), searchTerm);
+    const responseSchema = schema.refine(categorizationResponse, ({ categories }) => {
+      const unknown = categories.flatMap(category => category.painPointIndexes).filter(index => index < 0 || index >= chunk.length);
+      return unknown.length ? `refers to unknown item ids ${unknown.join(', ')}` : undefined;
+    });
 
-    const prompt = this.buildCategorizationPrompt(painPointTexts, searchTerm);
-    
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-      
-      // Parse the AI response to extract categories
-      const categories = this.parseCategorizationResponse(text, painPoints);
-      return categories;
+      const { categories } = await generateStructured(this.categorizationLlm, prompt, responseSchema);
+      if (!categories.some(category => category.painPointIndexes.length > 0)) {
+        throw new Error('No category contained any pain point');
+      }
+      return categories.map(category => ({ name: category.name, description: category.description, indexes: category.painPointIndexes }));
     } catch (error) {
       console.error('Error in AI categorization:', error);
-      // Fallback to rule-based categorization
-      return this.fallbackCategorization(painPoints);
+      this.fallbacks?.record('categorization', 'local clustering', error, chunk.length);
+      return this.localCategorization(chunk, searchTerm);
+    }
+  }
+
+  /**
+   * Merge chunk categories in rounds of config.categorization.mergeBatchSize until one round covers them all
+   */
+  private async mergeDrafts(drafts: DraftCategory[]): Promise<DraftCategory[]> {
+    if (!isLlmStepEnabled('merging')) return this.mergeByName(drafts);
+    const { mergeBatchSize } = config.categorization;
+    let current = drafts;
+    for (;;) {
+      const merged: DraftCategory[] = [];
+      for (let start = 0; start < current.length; start += mergeBatchSize) {
+        merged.push(...await this.mergeBatch(current.slice(start, start + mergeBatchSize)));
+      }
+      // Stop after a round that saw everything at once, or one that no longer shrinks the list
+      if (current.length <= mergeBatchSize || merged.length >= current.length) return merged;
+      current = merged;
+    }
+  }
+
+  /**
+   * Ask the LLM to group similar categories, falling back to merging categories with the same name
+   */
+  private async mergeBatch(drafts: DraftCategory[]): Promise<DraftCategory[]> {
+    const prompt = `
+You are an expert at analyzing customer complaints. The categories below were created independently for different
+batches of complaints, so several of them may describe the same issue.
+${UNTRUSTED_DATA_NOTICE}
+
+CATEGORIES TO MERGE:
+${formatDataBlock(drafts.map((draft, index) => ({
+  id: index,
+  text: `${draft.name}: ${draft.description}`,
+  attributes: { complaints: draft.indexes.length },
+})))}
+
+INSTRUCTIONS:
+1. Merge categories that describe the same underlying issue into one final category
+2. Produce at most ${config.categorization.maxCategories} final categories with clear names (2-4 words) and brief descriptions
+3. List every category id above in exactly one final category
+
+RESPONSE FORMAT (return as JSON):
+{
+  "categories": [
+    { "name": "Category Name", "description": "Brief description", "categoryIds": [0, 4, 7] }
+  ]
+}
+
+Return only the JSON response, no additional text.
+`;
+    const ids = drafts.map((_, index) => index);
+    const responseSchema = schema.refine(mergeResponse, ({ categories }) => {
+      const listed = categories.flatMap(category => category.categoryIds);
+      const missing = ids.filter(id => !listed.includes(id));
+      const unexpected = listed.filter((id, index) => !ids.includes(id) || listed.indexOf(id) !== index);
+      if (missing.length) return `is missing category ids ${missing.join(', ')}`;
+      if (unexpected.length) return `has unknown or repeated category ids ${unexpected.join(', ')}`;
+      if (categories.length > config.categorization.maxCategories) {
+        return `has ${categories.length} categories, at most ${config.categorization.maxCategories} are allowed`;
+      }
+      return undefined;
+    });
+
+    try {
+      const { categories } = await generateStructured(this.mergeLlm, prompt, responseSchema);
+      return categories.map(category => ({
+        name: category.name,
+        description: category.description,
+        indexes: category.categoryIds.flatMap(id => drafts[id].indexes),
+      }));
+    } catch (error) {
+      console.error('Error merging categories:', error);
+      this.fallbacks?.record('merging', 'merge by category name', error, drafts.length);
+      return this.mergeByName(drafts);
     }
   }
 
   /**
-   * Build the categorization prompt for Gemini
+   * Build the categorization prompt
    */
   private buildCategorizationPrompt(painPointTexts: Array<{index: number, text: string, engagement: number}>, searchTerm: string): string {
-    const painPointList = painPointTexts
-      .slice(0, 50) // Limit to avoid token limits
-      .map(point => `${point.index}: "${point.text}" (engagement: ${point.engagement})`)
-      .join('\n');
+    const painPointList = formatDataBlock(painPointTexts
+      .map(point => ({ id: point.index, text: point.text, attributes: { engagement: point.engagement } })));
 
     return `
 You are an expert at analyzing customer complaints and pain points. I need you to categorize the following complaints about "${searchTerm}" into meaningful categories.
+${UNTRUSTED_DATA_NOTICE}
 
 PAIN POINTS TO CATEGORIZE:
 ${painPointList}
@@ -111,7 +496,7 @@ INSTRUCTIONS:
 1. Create 5-10 distinct categories that best group these pain points
 2. Each category should have a clear, descriptive name (2-4 words)
 3. Provide a brief description of what each category represents
-4. Assign each pain point to exactly one category by its index number
+4. Assign each pain point to exactly one category by its item id
 5. Focus on the core issue or theme, not just keywords
 
 RESPONSE FORMAT (return as JSON):
@@ -130,55 +515,51 @@ Return only the JSON response, no additional text.
   }
 
   /**
-   * Parse AI response and create categories
+   * Id for a new category, unique among the taken ids (saved taxonomy categories and those built so far)
    */
-  private parseCategorizationResponse(response: string, painPoints: PainPoint[]): PainPointCategory[] {
-    try {
-      // Extract JSON from response (in case there's extra text)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      const categories: PainPointCategory[] = [];
-
-      for (const category of parsed.categories) {
-        const categoryPainPoints = category.painPointIndexes
-          .map((index: number) => painPoints[index])
-          .filter(Boolean);
-
-        if (categoryPainPoints.length > 0) {
-          categories.push({
-            id: this.generateCategoryId(category.name),
-            name: category.name,
-            description: category.description,
-            painPoints: categoryPainPoints,
-            count: categoryPainPoints.length,
-            averageEngagement: this.calculateAverageEngagement(categoryPainPoints),
-            summary: '', // Will be filled later
-          });
-        }
-      }
-
-      return categories;
-    } catch (error) {
-      console.error('Error parsing categorization response:', error);
-      return this.fallbackCategorization(painPoints);
+  private uniqueCategoryId(name: string, takenIds: Set<string>): string {
+    const baseId = this.generateCategoryId(name) || 'category';
+    let id = baseId;
+    for (let suffix = 2; takenIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
     }
+    return id;
+  }
+
+  /**
+   * Create a category with its statistics
+   */
+  private createCategory(id: string, name: string, description: string, points: PainPoint[]): PainPointCategory {
+    return {
+      id,
+      name,
+      description,
+      painPoints: points,
+      count: points.length,
+      uniqueAuthors: countUniqueAuthors(points.map(point => point.author)),
+      averageEngagement: this.calculateAverageEngagement(points),
+      averageIntensity: this.calculateAverageIntensity(points),
+      painTypes: countPainTypes(points),
+      summary: '', // Will be filled later
+    };
   }
 
   /**
    * Generate summaries for each category
    */
   private async generateCategorySummaries(categories: PainPointCategory[]): Promise<PainPointCategory[]> {
+    const extractive = (category: PainPointCategory) => extractiveSummary(category.painPoints.map(point => point.content));
     const summaryPromises = categories.map(async (category) => {
+      // Categories that come with a summary (the Uncategorized bucket) keep it
+      if (category.summary) return category;
+      if (!isLlmStepEnabled('summaries')) return { ...category, summary: extractive(category) };
       try {
         const summary = await this.generateCategorySummary(category);
         return { ...category, summary };
       } catch (error) {
         console.error(`Error generating summary for ${category.name}:`, error);
-        return { ...category, summary: `Common issues related to ${category.name.toLowerCase()}` };
+        this.fallbacks?.record('summaries', 'extractive summary', error, 1);
+        return { ...category, summary: extractive(category) || `Common issues related to ${category.name.toLowerCase()}` };
       }
     });
 
@@ -189,13 +570,13 @@ Return only the JSON response, no additional text.
    * Generate AI summary for a single category
    */
   private async generateCategorySummary(category: PainPointCategory): Promise<string> {
-    const painPointTexts = category.painPoints
+    const painPointTexts = formatDataBlock(category.painPoints
       .slice(0, 10) // Limit for token constraints
-      .map(point => `"${point.content}"`)
-      .join('\n');
+      .map((point, index) => ({ id: index + 1, text: point.content })));
 
     const prompt = `
-Analyze these customer complaints in the "${category.name}" category and create a concise summary:
+Analyze these customer complaints in the "${category.name}" category and create a concise summary.
+${UNTRUSTED_DATA_NOTICE}
 
 COMPLAINTS:
 ${painPointTexts}
@@ -207,67 +588,40 @@ Create a 2-3 sentence summary that:
 
 Summary:`;
 
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    return response.text().trim();
+    const summary = (await this.summaryLlm.generate(prompt)).trim();
+    if (!summary) {
+      throw new Error('Empty summary response');
+    }
+    return summary;
   }
 
   /**
-   * Fallback categorization when AI fails
+   * Local TF-IDF clustering, used when the categorization step is disabled or fails. Indexes refer to the given pain points.
    */
-  private fallbackCategorization(painPoints: PainPoint[]): PainPointCategory[] {
-    const categories = new Map<string, PainPoint[]>();
-
-    // Simple keyword-based categorization
-    const categoryKeywords = {
-      'Performance Issues': ['slow', 'lag', 'freeze', 'crash', 'performance', 'speed'],
-      'User Interface': ['ui', 'interface', 'design', 'layout', 'confusing', 'hard to use'],
-      'Bugs & Errors': ['bug', 'error', 'broken', 'not working', 'glitch', 'fail'],
-      'Pricing & Value': ['expensive', 'price', 'cost', 'money', 'overpriced', 'cheap'],
-      'Customer Service': ['support', 'service', 'help', 'response', 'staff', 'rude'],
-      'Feature Requests': ['wish', 'should', 'need', 'want', 'missing', 'add'],
-      'Quality Issues': ['quality', 'poor', 'bad', 'terrible', 'awful', 'horrible'],
-    };
-
-    for (const painPoint of painPoints) {
-      let assigned = false;
-      const text = painPoint.content.toLowerCase();
-
-      for (const [categoryName, keywords] of Object.entries(categoryKeywords)) {
-        if (keywords.some(keyword => text.includes(keyword))) {
-          if (!categories.has(categoryName)) {
-            categories.set(categoryName, []);
-          }
-          categories.get(categoryName)!.push(painPoint);
-          assigned = true;
-          break;
-        }
-      }
+  private localCategorization(painPoints: PainPoint[], searchTerm: string): DraftCategory[] {
+    return clusterTexts(painPoints.map(point => point.content), { excludeTerms: [searchTerm] })
+      .map(({ name, description, indexes }) => ({ name, description, indexes }));
+  }
 
-      if (!assigned) {
-        if (!categories.has('Other Issues')) {
-          categories.set('Other Issues', []);
-        }
-        categories.get('Other Issues')!.push(painPoint);
-      }
+  /**
+   * Merge categories that share a name (after id normalization)
+   */
+  private mergeByName(drafts: DraftCategory[]): DraftCategory[] {
+    const byName = new Map<string, DraftCategory>();
+    for (const draft of drafts) {
+      const key = this.generateCategoryId(draft.name);
+      const existing = byName.get(key);
+      byName.set(key, existing ? { ...existing, indexes: [...existing.indexes, ...draft.indexes] } : draft);
     }
-
-    return Array.from(categories.entries()).map(([name, points]) => ({
-      id: this.generateCategoryId(name),
-      name,
-      description: `Issues related to ${name.toLowerCase()}`,
-      painPoints: points,
-      count: points.length,
-      averageEngagement: this.calculateAverageEngagement(points),
-      summary: `Common ${name.toLowerCase()} reported by users`,
-    }));
+    return Array.from(byName.values());
   }
 
   /**
    * Generate a unique category ID
    */
   private generateCategoryId(name: string): string {
-    return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+    // Saved ids are permanent, so "Battery & Charging" becomes battery-charging rather than battery--charging
+    return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '').replace(/-{2,}/g, '-').replace(/^-|-$/g, '');
   }
 
   /**
@@ -278,4 +632,20 @@ Summary:`;
     const total = painPoints.reduce((sum, point) => sum + point.engagementScore, 0);
     return Math.round(total / painPoints.length);
   }
+
+  /**
+   * Calculate average negative intensity for a category
+   */
+  private calculateAverageIntensity(painPoints: PainPoint[]): number {
+    if (painPoints.length === 0) return 0;
+    const total = painPoints.reduce((sum, point) => sum + point.sentiment.intensity, 0);
+    return Math.round((total / painPoints.length) * 100) / 100;
+  }
+
+  /**
+   * Ranking score: complaint count, scaled between 0.5x (neutral) and 1.5x (maximally intense)
+   */
+  private calculateRankScore(category: PainPointCategory): number {
+    return category.count * (0.5 + category.averageIntensity);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { config } from './config';
+
+// Lightweight language detection from stopword and diacritic frequency, for picking rule packs per post
+
+export const SUPPORTED_LANGUAGES = ['en', 'de', 'fr', 'es', 'pt'] as const;
+
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  pt: 'Portuguese',
+};
+
+export interface LanguageDetection {
+  language: Language;
+  confidence: number; // Share of the evidence pointing at the language (0 when the fallback was used)
+}
+
+// Frequent function words; words shared by several languages count for each of them
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'it', 'to', 'of', 'that', 'this', 'with', 'was', 'for', 'my', 'have', 'but', 'not', 'you', 'are', 'they', 'just', 'what', 'when', 'would', 'been', 'there', 'their', 'can\'t', 'don\'t', 'doesn\'t']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'es', 'ein', 'eine', 'mit', 'auf', 'zu', 'den', 'dem', 'von', 'sich', 'auch', 'aber', 'wie', 'noch', 'nur', 'mein', 'meine', 'schon', 'wenn', 'hat', 'habe', 'kein', 'keine', 'wird', 'sind']),
+  fr: new Set(['le', 'la', 'les', 'et', 'est', 'pas', 'je', 'un', 'une', 'des', 'du', 'que', 'qui', 'dans', 'pour', 'avec', 'sur', 'ce', 'cette', 'mais', 'mon', 'ma', 'mes', 'ne', 'au', 'aux', 'il', 'elle', 'sont', 'très', 'c\'est', 'j\'ai']),
+  es: new Set(['el', 'la', 'los', 'las', 'y', 'es', 'no', 'que', 'un', 'una', 'de', 'del', 'en', 'por', 'para', 'con', 'pero', 'mi', 'mis', 'muy', 'lo', 'se', 'su', 'al', 'está', 'están', 'tengo', 'porque', 'hay', 'nada', 'ya', 'también']),
+  pt: new Set(['o', 'a', 'os', 'as', 'e', 'é', 'não', 'que', 'um', 'uma', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'por', 'para', 'com', 'mas', 'meu', 'minha', 'muito', 'se', 'isso', 'tem', 'já', 'também', 'está', 'você']),
+};
+
+// Characters that (almost) only one supported language uses
+const DIACRITIC_HINTS: Array<{ language: Language; pattern: RegExp }> = [
+  { language: 'de', pattern: /[äöüß]/gi },
+  { language: 'fr', pattern: /[èêëœçîû]/gi },
+  { language: 'es', pattern: /[ñ¿¡]/gi },
+  { language: 'pt', pattern: /[ãõ]/gi },
+];
+
+const MIN_EVIDENCE = 2;
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a word is a function word in any supported language
+ */
+export function isStopword(word: string): boolean {
+  return SUPPORTED_LANGUAGES.some(language => STOPWORDS[language].has(word));
+}
+
+/**
+ * Guess the language of a text; short or ambiguous texts get the fallback
+ */
+export function detectLanguage(text: string, fallback: Language = config.language.default): LanguageDetection {
+  const words = text.toLowerCase().replace(/[’‘]/g, '\'').match(/[\p{L}']+/gu) || [];
+  const evidence = new Map<Language, number>(SUPPORTED_LANGUAGES.map(language => [language, 0]));
+
+  for (const word of words) {
+    for (const language of SUPPORTED_LANGUAGES) {
+      if (STOPWORDS[language].has(word)) {
+        evidence.set(language, evidence.get(language)! + 1);
+      }
+    }
+  }
+  for (const { language, pattern } of DIACRITIC_HINTS) {
+    evidence.set(language, evidence.get(language)! + (text.match(pattern) || []).length);
+  }
+
+  const total = Array.from(evidence.values()).reduce((sum, count) => sum + count, 0);
+  const [best, bestCount] = Array.from(evidence.entries()).sort((a, b) => b[1] - a[1])[0];
+  if (bestCount < MIN_EVIDENCE) {
+    return { language: fallback, confidence: 0 };
+  }
+  return { language: best, confidence: Math.round((bestCount / total) * 100) / 100 };
+}
+
+/**
+ * Pain points (or any items) per detected language
+ */
+export function countLanguages(items: Array<{ language: Language }>): Partial<Record<Language, number>> {
+  const counts: Partial<Record<Language, number>> = {};
+  for (const { language } of items) {
+    counts[language] = (counts[language] || 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,25 @@
+import { LlmStep } from './types';
+
+export interface LlmFallback {
+  step: LlmStep;
+  fallback: string; // What was used instead of the model's answer
+  reason: string;
+  items?: number; // Items the fallback covered, for item-based steps
+}
+
+/**
+ * Fallbacks taken during one analysis, reported with its result so keyword-based output is never silent
+ */
+export class FallbackLog {
+  private entries: LlmFallback[] = [];
+
+  record(step: LlmStep, fallback: string, error: unknown, items?: number) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️ ${step} step fell back to ${fallback}: ${reason}`);
+    this.entries.push({ step, fallback, reason, items });
+  }
+
+  getEntries(): LlmFallback[] {
+    return [...this.entries];
+  }
+}
@@ -0,0 +1,20 @@
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { config } from '../config';
+import { LlmProvider } from './types';
+
+/**
+ * Google Gemini via the official SDK
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini';
+  private generativeModel: GenerativeModel;
+
+  constructor(readonly model: string) {
+    this.generativeModel = new GoogleGenerativeAI(config.gemini.apiKey).getGenerativeModel({ model });
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const result = await this.generativeModel.generateContent(prompt);
+    return result.response.text();
+  }
+}
@@ -0,0 +1,88 @@
+import { config } from '../config';
+import { fixtureStore } from '../fixture-store';
+import { LlmProvider, LlmProviderId, LlmStep, LlmStepConfig, LLM_PROVIDERS, LLM_STEPS } from './types';
+import { GeminiProvider } from './gemini-provider';
+import { OpenAiCompatibleProvider } from './openai-compatible-provider';
+import { MockProvider } from './mock-provider';
+
+export * from './types';
+export * from './schema';
+export * from './structured-output';
+export * from './fallbacks';
+
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1',
+  mock: 'mock',
+  none: 'none',
+};
+
+const PROVIDER_FACTORIES: Record<LlmProviderId, (model: string, step: LlmStep) => LlmProvider> = {
+  gemini: model => new GeminiProvider(model),
+  'openai-compatible': model => new OpenAiCompatibleProvider(model),
+  mock: (model, step) => new MockProvider(model, step),
+  // Callers check isLlmStepEnabled first; this only guards against a missed check
+  none: (model, step) => ({
+    id: 'none',
+    model,
+    generate: async () => {
+      throw new Error(`LLM step "${step}" is disabled`);
+    },
+  }),
+};
+
+let stepOverrides: Partial<Record<LlmStep, LlmStepConfig>> | undefined;
+
+/**
+ * Per-step settings from config.llm.steps, overridden by the LLM_STEPS JSON environment variable
+ */
+function getStepOverrides(): Partial<Record<LlmStep, LlmStepConfig>> {
+  if (stepOverrides) return stepOverrides;
+
+  stepOverrides = { ...config.llm.steps };
+  if (config.llm.stepsJson) {
+    try {
+      const parsed = JSON.parse(config.llm.stepsJson) as Record<string, LlmStepConfig>;
+      for (const [step, stepConfig] of Object.entries(parsed)) {
+        if (!(LLM_STEPS as readonly string[]).includes(step)) {
+          throw new Error(`unknown step "${step}". Steps: ${LLM_STEPS.join(', ')}`);
+        }
+        stepOverrides[step as LlmStep] = { ...stepOverrides[step as LlmStep], ...stepConfig };
+      }
+    } catch (error) {
+      console.error('Failed to parse LLM_STEPS:', error);
+    }
+  }
+  return stepOverrides;
+}
+
+/**
+ * Provider and model a step runs on
+ */
+export function resolveLlmStep(step: LlmStep): { provider: LlmProviderId; model: string } {
+  const stepConfig = getStepOverrides()[step] || {};
+  const provider = stepConfig.provider ?? config.llm.provider;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM provider "${provider}". Available providers: ${LLM_PROVIDERS.join(', ')}`);
+  }
+  // The global model only applies to steps that use the global provider
+  const globalModel = provider === config.llm.provider ? config.llm.model : undefined;
+  return { provider, model: stepConfig.model || globalModel || DEFAULT_MODELS[provider] };
+}
+
+/**
+ * Whether a step may prompt a model; disabled steps take their non-LLM path without recording a fallback
+ */
+export function isLlmStepEnabled(step: LlmStep): boolean {
+  return resolveLlmStep(step).provider !== 'none';
+}
+
+/**
+ * Instantiate the provider for a pipeline step, routed through the fixture store for record/replay
+ */
+export function createLlmProvider(step: LlmStep): LlmProvider {
+  const { provider, model } = resolveLlmStep(step);
+  const instance = PROVIDER_FACTORIES[provider](model, step);
+  // The mock is already deterministic and 'none' never answers, so there is nothing to record
+  return provider === 'mock' || provider === 'none' ? instance : fixtureStore.wrapProvider(instance);
+}
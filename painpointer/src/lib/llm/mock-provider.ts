@@ -0,0 +1,55 @@
+import { LlmProvider, LlmStep } from './types';
+
+// Items of the <untrusted_data> block every item-based prompt carries
+const ITEM_PATTERN = /<item id="([^"]*)"[^>]*>([\s\S]*?)<\/item>/g;
+
+/**
+ * Deterministic, offline answers shaped like each step expects, for tests and air-gapped runs.
+ * Every item is kept, nothing is rewritten, everything lands in one category and a fixed set of subreddits is searched.
+ */
+export class MockProvider implements LlmProvider {
+  readonly id = 'mock';
+
+  constructor(readonly model: string, private step: LlmStep) {}
+
+  async generate(prompt: string): Promise<string> {
+    const items = Array.from(prompt.matchAll(ITEM_PATTERN)).map(([, id, text]) => ({ id, text }));
+
+    switch (this.step) {
+      case 'subreddits':
+        return JSON.stringify(['technology', 'techsupport', 'complaints']);
+      case 'synonyms':
+        // No other names, which is a valid answer, so query expansion sticks to the term and configured aliases
+        return JSON.stringify([]);
+      case 'relevance':
+        return JSON.stringify({ results: items.map(item => ({ id: Number(item.id), relevant: true })) });
+      case 'translation':
+        return JSON.stringify({ translations: items.map(item => ({ id: Number(item.id), text: item.text })) });
+      case 'aspects':
+        return JSON.stringify({ results: items.map(item => ({ id: Number(item.id), aspects: [] })) });
+      case 'taxonomy':
+        // Nothing fits a saved category (mock runs skip saved taxonomies anyway, this only answers direct prompts)
+        return JSON.stringify({ results: items.map(item => ({ id: Number(item.id), categoryId: null })) });
+      case 'categorization':
+        return JSON.stringify({
+          categories: [{
+            name: 'All Complaints',
+            description: 'Every complaint, grouped by the mock provider',
+            painPointIndexes: items.map(item => Number(item.id)),
+          }],
+        });
+      case 'merging':
+        return JSON.stringify({
+          categories: [{
+            name: 'All Complaints',
+            description: 'Every complaint, grouped by the mock provider',
+            categoryIds: items.map(item => Number(item.id)),
+          }],
+        });
+      case 'summaries':
+        return `${items.length} complaints in this category (mock summary).`;
+      default:
+        return '[]';
+    }
+  }
+}
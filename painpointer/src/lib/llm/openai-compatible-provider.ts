@@ -0,0 +1,38 @@
+import { config } from '../config';
+import { LlmProvider } from './types';
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a local Ollama, llama.cpp or vLLM server
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = 'openai-compatible';
+
+  constructor(readonly model: string) {}
+
+  async generate(prompt: string): Promise<string> {
+    const { baseUrl, apiKey, timeoutMs } = config.llm.openAiCompatible;
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+      }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible endpoint responded with ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI-compatible endpoint returned no message content');
+    }
+    return content;
+  }
+}
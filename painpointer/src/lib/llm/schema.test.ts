@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { keyedResults, schema } from './schema';
+
+describe('schema', () => {
+  const item = schema.object({ id: schema.integer(), label: schema.string(), note: schema.optional(schema.string()) });
+
+  it('returns the value with unlisted keys dropped', () => {
+    expect(item({ id: 1, label: 'slow', extra: true }, 'item')).toEqual({ id: 1, label: 'slow', note: undefined });
+  });
+
+  it('reports the path of the invalid field', () => {
+    expect(() => schema.array(item)([{ id: 1, label: 'ok' }, { id: '2', label: 'bad' }], 'response'))
+      .toThrow('response[1].id must be an integer, got "2"');
+    expect(() => item([], 'item')).toThrow('item must be an object, got an array');
+    expect(() => schema.boolean()(null, 'flag')).toThrow('flag must be true or false, got null');
+  });
+
+  it('treats null as a missing optional value', () => {
+    expect(schema.optional(schema.string())(null, 'note')).toBeUndefined();
+  });
+
+  it('runs refine checks after the inner schema', () => {
+    const nonEmpty = schema.refine(schema.array(schema.string()), values => values.length ? undefined : 'must not be empty');
+    expect(() => nonEmpty([], 'labels')).toThrow('labels must not be empty');
+    expect(nonEmpty(['a'], 'labels')).toEqual(['a']);
+  });
+});
+
+describe('keyedResults', () => {
+  const results = keyedResults(schema.object({ id: schema.integer(), relevant: schema.boolean() }), [1, 2, 3]);
+
+  it('accepts every id answered once, in any order', () => {
+    const answers = [{ id: 3, relevant: true }, { id: 1, relevant: false }, { id: 2, relevant: true }];
+    expect(results(answers, 'response')).toEqual(answers);
+  });
+
+  it('rejects missing ids', () => {
+    expect(() => results([{ id: 1, relevant: true }, { id: 2, relevant: true }], 'response'))
+      .toThrow('response is missing ids 3');
+  });
+
+  it('rejects unknown and repeated ids', () => {
+    const answers = [1, 2, 3, 4].map(id => ({ id, relevant: true }));
+    expect(() => results(answers, 'response')).toThrow('has unknown or repeated ids 4');
+    expect(() => results([1, 2, 3, 2].map(id => ({ id, relevant: true })), 'response'))
+      .toThrow('has unknown or repeated ids 2');
+  });
+});
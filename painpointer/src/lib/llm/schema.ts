@@ -0,0 +1,64 @@
+// Minimal runtime schemas for LLM responses: each schema validates a parsed JSON value and returns it typed
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown) => Array.isArray(value) ? 'an array' : value === null ? 'null' : typeof value;
+
+export const schema = {
+  string: (): Schema<string> => (value, path) => {
+    if (typeof value !== 'string') throw new Error(`${path} must be a string, got ${describe(value)}`);
+    return value;
+  },
+
+  boolean: (): Schema<boolean> => (value, path) => {
+    if (typeof value !== 'boolean') throw new Error(`${path} must be true or false, got ${describe(value)}`);
+    return value;
+  },
+
+  integer: (): Schema<number> => (value, path) => {
+    if (!Number.isInteger(value)) throw new Error(`${path} must be an integer, got ${JSON.stringify(value)}`);
+    return value as number;
+  },
+
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => (value, path) =>
+    value === undefined || value === null ? undefined : inner(value, path),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => (value, path) => {
+    if (!Array.isArray(value)) throw new Error(`${path} must be an array, got ${describe(value)}`);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  },
+
+  // Unlisted keys are dropped
+  object: <S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> => (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${path} must be an object, got ${describe(value)}`);
+    const result = {} as { [K in keyof S]: Infer<S[K]> };
+    for (const key of Object.keys(shape) as Array<keyof S>) {
+      result[key] = shape[key]((value as Record<string, unknown>)[key as string], `${path}.${String(key)}`) as Infer<S[keyof S]>;
+    }
+    return result;
+  },
+
+  // Extra checks on an already-typed value; check returns an error message or undefined
+  refine: <T>(inner: Schema<T>, check: (value: T) => string | undefined): Schema<T> => (value, path) => {
+    const parsed = inner(value, path);
+    const problem = check(parsed);
+    if (problem) throw new Error(`${path} ${problem}`);
+    return parsed;
+  },
+};
+
+/**
+ * Results keyed by item id must answer every id exactly once, so answers can't be misattributed by order
+ */
+export function keyedResults<T extends { id: number }>(item: Schema<T>, ids: number[]): Schema<T[]> {
+  return schema.refine(schema.array(item), results => {
+    const answered = results.map(result => result.id);
+    const missing = ids.filter(id => !answered.includes(id));
+    const unexpected = answered.filter((id, index) => !ids.includes(id) || answered.indexOf(id) !== index);
+    if (missing.length) return `is missing ids ${missing.join(', ')}`;
+    if (unexpected.length) return `has unknown or repeated ids ${unexpected.join(', ')}`;
+    return undefined;
+  });
+}
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { schema } from './schema';
+import { generateStructured, parseJsonResponse } from './structured-output';
+import { LlmProvider } from './types';
+
+// Provider that replies with the queued responses in order and records its prompts
+function fakeProvider(responses: string[]): LlmProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    id: 'mock',
+    model: 'fake',
+    prompts,
+    generate: async prompt => {
+      prompts.push(prompt);
+      const response = responses.shift();
+      if (response === undefined) throw new Error('No response queued');
+      return response;
+    },
+  };
+}
+
+describe('parseJsonResponse', () => {
+  it('parses plain JSON', () => {
+    expect(parseJsonResponse('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it('parses JSON inside markdown fences', () => {
+    expect(parseJsonResponse('Here you go:\n```json\n[1, 2]\n```\nDone.')).toEqual([1, 2]);
+  });
+
+  it('falls back to the outermost JSON value in surrounding text', () => {
+    expect(parseJsonResponse('Sure! {"labels": ["a", {"b": 1}]} Hope that helps.')).toEqual({ labels: ['a', { b: 1 }] });
+  });
+
+  it('throws when there is no JSON', () => {
+    expect(() => parseJsonResponse('I cannot help with that.')).toThrow();
+  });
+});
+
+describe('generateStructured', () => {
+  const labels = schema.object({ labels: schema.array(schema.string()) });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns a valid first response without repairing', async () => {
+    const llm = fakeProvider(['{"labels": ["slow"]}']);
+    await expect(generateStructured(llm, 'prompt', labels)).resolves.toEqual({ labels: ['slow'] });
+    expect(llm.prompts).toHaveLength(1);
+  });
+
+  it('sends an invalid response back with its validation error', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const llm = fakeProvider(['{"labels": "slow"}', '{"labels": ["slow"]}']);
+
+    await expect(generateStructured(llm, 'prompt', labels)).resolves.toEqual({ labels: ['slow'] });
+    expect(llm.prompts).toHaveLength(2);
+    expect(llm.prompts[1]).toContain('response.labels must be an array, got string');
+    expect(llm.prompts[1]).toContain('{"labels": "slow"}');
+  });
+
+  it('throws the last error once the repair attempts are used up', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const llm = fakeProvider(['nope', 'still nope', '{"labels": [1]}']);
+
+    await expect(generateStructured(llm, 'prompt', labels))
+      .rejects.toThrow('Invalid mock response after 3 attempts: response.labels[0] must be a string, got number');
+    expect(llm.prompts).toHaveLength(3);
+  });
+});
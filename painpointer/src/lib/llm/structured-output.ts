@@ -0,0 +1,46 @@
+import { config } from '../config';
+import { Schema } from './schema';
+import { LlmProvider } from './types';
+
+/**
+ * Parse JSON out of a model response, tolerating markdown fences and text around the JSON
+ */
+export function parseJsonResponse(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    // Fall back to the outermost array or object
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf(']'), candidate.lastIndexOf('}'));
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+/**
+ * Prompt for JSON matching a schema. Invalid responses are sent back with the validation error for repair,
+ * up to config.llm.maxRepairAttempts times, before the last error is thrown.
+ */
+export async function generateStructured<T>(llm: LlmProvider, prompt: string, responseSchema: Schema<T>): Promise<T> {
+  let response = await llm.generate(prompt);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return responseSchema(parseJsonResponse(response), 'response');
+    } catch (error) {
+      const problem = error instanceof Error ? error.message : String(error);
+      if (attempt >= config.llm.maxRepairAttempts) {
+        throw new Error(`Invalid ${llm.id} response after ${attempt + 1} attempts: ${problem}`);
+      }
+      console.warn(`🔧 Repairing invalid ${llm.id} response (${problem})`);
+      response = await llm.generate(`${prompt}
+
+Your previous response could not be used: ${problem}
+Previous response:
+${response.slice(0, 2000)}
+
+Reply again with only the corrected JSON.`);
+    }
+  }
+}
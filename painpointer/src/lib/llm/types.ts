@@ -0,0 +1,22 @@
+// Text-in, text-out LLM backends shared by every pipeline step that prompts a model
+
+// 'none' disables a step: it takes its non-LLM path (keyword relevance, local clustering, extractive summaries, ...)
+export const LLM_PROVIDERS = ['gemini', 'openai-compatible', 'mock', 'none'] as const;
+
+export type LlmProviderId = typeof LLM_PROVIDERS[number];
+
+// Pipeline steps that prompt a model; each can use its own provider and model
+export const LLM_STEPS = ['subreddits', 'synonyms', 'relevance', 'translation', 'aspects', 'taxonomy', 'categorization', 'merging', 'summaries'] as const;
+
+export type LlmStep = typeof LLM_STEPS[number];
+
+export interface LlmStepConfig {
+  provider?: LlmProviderId; // config.llm.provider when unset
+  model?: string; // config.llm.model, then the provider's default model, when unset
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  generate(prompt: string): Promise<string>;
+}
@@ -0,0 +1,273 @@
+import { config } from './config';
+import { isStopword } from './language';
+import { splitSentences } from './text-spans';
+
+// LLM-free categorization: TF-IDF vectors, spherical k-means with automatic k, keyphrase labels and extractive summaries
+
+type Vector = Map<string, number>;
+
+export interface LocalCluster {
+  name: string; // Title-cased top keyphrases
+  description: string;
+  keyphrases: string[];
+  indexes: number[]; // Indexes into the clustered texts
+}
+
+export interface LocalClusteringOptions {
+  excludeTerms?: string[]; // Words never used as features or labels (e.g. the search term itself)
+}
+
+// Words that say something is wrong without saying what, so they make poor labels
+const GENERIC_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'anyone', 'back', 'because', 'being', 'could', 'does', 'even', 'every', 'from',
+  'get', 'getting', 'going', 'got', 'had', 'has', 'into', 'its', 'like', 'make', 'more', 'much', 'need', 'now', 'one',
+  'only', 'other', 'out', 'over', 'really', 'same', 'should', 'since', 'some', 'still', 'than', 'them', 'then', 'thing',
+  'things', 'think', 'time', 'very', 'want', 'way', 'were', 'which', 'who', 'why', 'will', 'your', 'issue', 'issues',
+  'problem', 'problems', 'someone', 'people', 'know', 'use', 'using', 'used',
+]);
+
+function tokenize(text: string, exclude: Set<string>): string[] {
+  const words = (text.toLowerCase().replace(/[’‘]/g, '\'').match(/[\p{L}\p{N}']+/gu) || [])
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(word => word.length >= 3 && !/^\d+$/.test(word) && !isStopword(word) && !GENERIC_WORDS.has(word) && !exclude.has(word));
+  // Unigrams plus bigrams, so "battery drain" can stand apart from "battery life"
+  return [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+}
+
+function excludedWords(options: LocalClusteringOptions): Set<string> {
+  return new Set((options.excludeTerms || []).flatMap(term => term.toLowerCase().split(/\s+/)));
+}
+
+function normalize(vector: Vector): Vector {
+  const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+  if (norm > 0) vector.forEach((weight, term) => vector.set(term, weight / norm));
+  return vector;
+}
+
+function dot(a: Vector, b: Vector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((weight, term) => {
+    sum += weight * (large.get(term) || 0);
+  });
+  return sum;
+}
+
+function centroid(vectors: Vector[]): Vector {
+  const sum: Vector = new Map();
+  for (const vector of vectors) {
+    vector.forEach((weight, term) => sum.set(term, (sum.get(term) || 0) + weight));
+  }
+  return normalize(sum);
+}
+
+// Seeded PRNG (mulberry32), so the same input always clusters the same way
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * L2-normalized TF-IDF vectors. Terms in a single document (in larger sets) or in most documents carry no grouping signal.
+ */
+function vectorize(texts: string[], exclude: Set<string>): Vector[] {
+  const documents = texts.map(text => tokenize(text, exclude));
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  }
+
+  const minFrequency = texts.length >= 10 ? 2 : 1;
+  const maxFrequency = Math.max(2, texts.length * 0.5);
+  return documents.map(terms => {
+    const vector: Vector = new Map();
+    for (const term of terms) {
+      const frequency = documentFrequency.get(term)!;
+      if (frequency < minFrequency || frequency > maxFrequency) continue;
+      vector.set(term, (vector.get(term) || 0) + Math.log(texts.length / frequency) + 1);
+    }
+    return normalize(vector);
+  });
+}
+
+/**
+ * Spherical k-means (cosine similarity) with k-means++ seeding
+ */
+function kMeans(vectors: Vector[], k: number, random: () => number): number[] {
+  const centroids: Vector[] = [vectors[Math.floor(random() * vectors.length)]];
+  while (centroids.length < k) {
+    const distances = vectors.map(vector => Math.max(0, 1 - Math.max(...centroids.map(c => dot(vector, c)))) ** 2);
+    const total = distances.reduce((sum, distance) => sum + distance, 0);
+    let target = random() * total;
+    const next = distances.findIndex(distance => (target -= distance) <= 0);
+    centroids.push(vectors[next === -1 || total === 0 ? Math.floor(random() * vectors.length) : next]);
+  }
+
+  let assignments = vectors.map(() => -1);
+  for (let iteration = 0; iteration < config.localClustering.maxIterations; iteration++) {
+    const next = vectors.map(vector => {
+      let best = 0;
+      let bestSimilarity = -1;
+      centroids.forEach((c, index) => {
+        const similarity = dot(vector, c);
+        if (similarity > bestSimilarity) {
+          best = index;
+          bestSimilarity = similarity;
+        }
+      });
+      return best;
+    });
+    if (next.every((cluster, index) => cluster === assignments[index])) break;
+    assignments = next;
+    for (let cluster = 0; cluster < k; cluster++) {
+      const members = vectors.filter((_, index) => assignments[index] === cluster);
+      if (members.length > 0) centroids[cluster] = centroid(members);
+    }
+  }
+  return assignments;
+}
+
+/**
+ * Mean silhouette with cosine distance; higher means tighter, better separated clusters
+ */
+function silhouette(vectors: Vector[], assignments: number[]): number {
+  const scores = vectors.map((vector, index) => {
+    const distanceSums = new Map<number, { sum: number; count: number }>();
+    vectors.forEach((other, otherIndex) => {
+      if (otherIndex === index) return;
+      const entry = distanceSums.get(assignments[otherIndex]) || { sum: 0, count: 0 };
+      entry.sum += 1 - dot(vector, other);
+      entry.count++;
+      distanceSums.set(assignments[otherIndex], entry);
+    });
+    const own = distanceSums.get(assignments[index]);
+    if (!own) return 0; // Singleton clusters score 0
+    const a = own.sum / own.count;
+    const b = Math.min(...Array.from(distanceSums.entries())
+      .filter(([cluster]) => cluster !== assignments[index])
+      .map(([, entry]) => entry.sum / entry.count));
+    return Number.isFinite(b) && Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0;
+  });
+  return scores.reduce((sum, score) => sum + score, 0) / Math.max(1, scores.length);
+}
+
+/**
+ * Top-weighted terms of a cluster centroid, skipping terms that repeat a word of a higher-ranked one
+ */
+function keyphrasesFor(c: Vector, count: number): string[] {
+  const ranked = Array.from(c.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([term]) => term);
+  const phrases: string[] = [];
+  for (const term of ranked) {
+    if (phrases.length >= count) break;
+    const overlaps = phrases.some(phrase => phrase.split(' ').some(word => term.split(' ').includes(word)));
+    if (!overlaps) phrases.push(term);
+  }
+  return phrases;
+}
+
+const titleCase = (phrase: string) => phrase.replace(/(^|\s)\p{L}/gu, letter => letter.toUpperCase());
+
+/**
+ * Cluster texts into labelled groups, choosing k by silhouette on a sample. Texts with no usable words are left out,
+ * so callers can put them in an Uncategorized bucket.
+ */
+export function clusterTexts(texts: string[], options: LocalClusteringOptions = {}): LocalCluster[] {
+  const exclude = excludedWords(options);
+  const vectors = vectorize(texts, exclude);
+  const usable = vectors.map((vector, index) => ({ vector, index })).filter(({ vector }) => vector.size > 0);
+  if (usable.length === 0) return [];
+
+  const random = createRandom(config.localClustering.seed);
+  const maxK = Math.min(config.localClustering.maxClusters, Math.floor(usable.length / 3));
+
+  let k = 1;
+  if (maxK >= 2) {
+    // Choose k on a sample; silhouette is quadratic in the number of points
+    const sample = usable.length > config.localClustering.sampleSize
+      ? shuffle(usable, random).slice(0, config.localClustering.sampleSize)
+      : usable;
+    let bestScore = -Infinity;
+    for (let candidate = 2; candidate <= maxK; candidate++) {
+      const score = silhouette(sample.map(({ vector }) => vector), kMeans(sample.map(({ vector }) => vector), candidate, random));
+      if (score > bestScore) {
+        bestScore = score;
+        k = candidate;
+      }
+    }
+  }
+
+  const assignments = k === 1 ? usable.map(() => 0) : kMeans(usable.map(({ vector }) => vector), k, random);
+  const clusters: LocalCluster[] = [];
+  for (let cluster = 0; cluster < k; cluster++) {
+    const members = usable.filter((_, index) => assignments[index] === cluster);
+    if (members.length === 0) continue;
+    const keyphrases = keyphrasesFor(centroid(members.map(({ vector }) => vector)), 3);
+    clusters.push({
+      name: keyphrases.slice(0, 2).map(titleCase).join(' & ') || 'General Complaints',
+      description: `Complaints mentioning ${keyphrases.join(', ')}`,
+      keyphrases,
+      indexes: members.map(({ index }) => index),
+    });
+  }
+  return clusters.sort((a, b) => b.indexes.length - a.indexes.length);
+}
+
+/**
+ * For each text, the index of the most similar label (e.g. a saved category's name and description),
+ * or -1 when none exceeds config.localClustering.minLabelSimilarity
+ */
+export function matchLabels(texts: string[], labels: string[], options: LocalClusteringOptions = {}): number[] {
+  const exclude = excludedWords(options);
+  // Labels are vectorized with the texts, so a label word counts as a feature whenever some text uses it
+  const vectors = vectorize([...texts, ...labels], exclude);
+  const labelVectors = vectors.slice(texts.length);
+  return vectors.slice(0, texts.length).map(vector => {
+    let best = -1;
+    let bestSimilarity = config.localClustering.minLabelSimilarity;
+    labelVectors.forEach((label, index) => {
+      const similarity = dot(vector, label);
+      if (similarity > bestSimilarity) {
+        best = index;
+        bestSimilarity = similarity;
+      }
+    });
+    return best;
+  });
+}
+
+/**
+ * The sentences most central to a set of texts (closest to their TF-IDF centroid), in their original wording
+ */
+export function extractiveSummary(texts: string[], maxSentences: number = 2): string {
+  const sentences = texts.flatMap(text => splitSentences(text).map(span => text.slice(span.start, span.end)))
+    .filter(sentence => sentence.length >= 20 && sentence.length <= 300);
+  if (sentences.length === 0) return texts[0]?.slice(0, 200) ?? '';
+
+  const vectors = vectorize(sentences, new Set());
+  const center = centroid(vectors);
+  const chosen: string[] = [];
+  for (const { sentence } of sentences
+    .map((sentence, index) => ({ sentence, similarity: dot(vectors[index], center) }))
+    .sort((a, b) => b.similarity - a.similarity)) {
+    if (chosen.length >= maxSentences) break;
+    if (!chosen.some(existing => existing.toLowerCase() === sentence.toLowerCase())) chosen.push(sentence);
+  }
+  return chosen.map(sentence => /[.!?]$/.test(sentence) ? sentence : `${sentence}.`).join(' ');
+}
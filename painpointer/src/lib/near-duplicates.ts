@@ -0,0 +1,129 @@
+import { config } from './config';
+
+// MinHash + LSH near-duplicate clustering for crossposts, reposts and quoted replies
+
+const SHINGLE_SIZE = 3; // Words per shingle
+const BANDS = 32;
+const ROWS_PER_BAND = 2; // 64 hashes; pairs down to ~0.2 Jaccard usually become candidates
+const MIN_CONTAINMENT_SHINGLES = 5; // Shorter texts are only compared by Jaccard, or they'd be "contained" in everything
+
+// Fixed seeds keep signatures, and therefore clusters, deterministic between runs
+const SEEDS = Array.from({ length: BANDS * ROWS_PER_BAND }, (_, i) => Math.imul(i + 1, 0x9e3779b1) >>> 0);
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finalizer, used to derive independent hash functions from one base hash
+function mix(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Hashed word shingles of normalized text (quote markers, punctuation and case ignored)
+ */
+export function shingle(text: string): Set<number> {
+  const words = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+  const shingles = new Set<number>();
+  if (words.length < SHINGLE_SIZE) {
+    if (words.length > 0) shingles.add(fnv1a(words.join(' ')));
+    return shingles;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return shingles;
+}
+
+function minHash(shingles: Set<number>): number[] {
+  const signature = SEEDS.map(() => 0xffffffff);
+  for (const value of shingles) {
+    SEEDS.forEach((seed, i) => {
+      const hashed = mix(value ^ seed);
+      if (hashed < signature[i]) signature[i] = hashed;
+    });
+  }
+  return signature;
+}
+
+/**
+ * Exact similarity of two shingle sets: Jaccard, or containment of the smaller set in the larger
+ * (a quoted reply or a crosspost with a line added contains most of the original)
+ */
+function isNearDuplicate(a: Set<number>, b: Set<number>): boolean {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  if (smaller.size === 0) return false;
+
+  let shared = 0;
+  smaller.forEach(value => { if (larger.has(value)) shared++; });
+
+  const jaccard = shared / (a.size + b.size - shared);
+  const containment = shared / smaller.size;
+  return jaccard >= config.duplicates.similarityThreshold
+    || (smaller.size >= MIN_CONTAINMENT_SHINGLES && containment >= config.duplicates.containmentThreshold);
+}
+
+/**
+ * Group texts into clusters of near-duplicates. Returns clusters as lists of indexes into `texts`;
+ * every index appears in exactly one cluster, singletons included.
+ */
+export function clusterNearDuplicates(texts: string[]): number[][] {
+  const shingleSets = texts.map(shingle);
+
+  // Union-find over candidate pairs that share at least one LSH band
+  const parent = texts.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const buckets = new Map<string, number[]>();
+  shingleSets.forEach((shingles, index) => {
+    if (shingles.size === 0) return;
+    const signature = minHash(shingles);
+    for (let band = 0; band < BANDS; band++) {
+      const key = `${band}:${signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  const compared = new Set<string>();
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]];
+        const pairKey = `${a}:${b}`;
+        if (compared.has(pairKey) || find(a) === find(b)) continue;
+        compared.add(pairKey);
+        if (isNearDuplicate(shingleSets[a], shingleSets[b])) {
+          parent[find(a)] = find(b);
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  texts.forEach((_, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(index);
+    else clusters.set(root, [index]);
+  });
+  return Array.from(clusters.values());
+}
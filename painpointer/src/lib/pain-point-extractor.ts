@@ -1,99 +1,185 @@
-import { RedditPost } from './reddit-client';
+import { SourceDocument, SourceReply } from './sources';
+import { CompiledRulePack, getRulePackForLanguage, matchRules } from './rule-packs';
+import { extractComplaintSpan, TextSpan } from './text-spans';
+import { scoreSentiment, SentimentScore } from './sentiment';
+import { clusterNearDuplicates } from './near-duplicates';
+import { classifyPainType, isPainType, PainTypeClassification, PAIN_TYPES } from './pain-taxonomy';
+import { tagAspects } from './aspects';
+import { detectLanguage, Language, LANGUAGE_NAMES } from './language';
+import { findInjectionPhrases, formatDataBlock, isRewriteConsistent, SafetyFlag, UNTRUSTED_DATA_NOTICE } from './prompt-safety';
+import { keyedResults, schema } from './llm/schema';
+import { generateStructured } from './llm/structured-output';
+import type { FallbackLog } from './llm/fallbacks';
+import { createEngagementScorer, EngagementComponents, EngagementInput, EngagementOptions } from './engagement';
 
 export interface PainPoint {
   id: string;
-  content: string;
+  content: string; // Complaint sentence with surrounding context (in English once translated)
+  originalText: string; // The complaint as extracted, in its original language
+  language: Language; // Detected language of the source text
+  translated: boolean; // Whether content was machine-translated to English
+  sourceText: string; // Full title, post body or comment the content was taken from
+  span: TextSpan; // Offsets of the complaint sentence within sourceText
   source: 'title' | 'post' | 'comment';
+  sourceId: string; // Source adapter the pain point came from (e.g. 'reddit')
   score: number;
   num_comments: number;
-  subreddit: string;
+  subreddit: string; // Community within the source (subreddit for Reddit)
   url: string;
   created_utc: number;
+  author: string;
   engagementScore: number; // Calculated score based on upvotes + comments
+  engagement: EngagementComponents; // How engagementScore was derived, before near-duplicate engagement was added
+  sentiment: SentimentScore; // Local lexicon score of the content; intensity feeds category ranking
+  matchedRules: string[]; // Rule pack rules that flagged the text (e.g. 'keyword:broken', 'pattern:sick-of')
+  duplicateCount: number; // Near-duplicates (crossposts, reposts, quotes) merged into this pain point
+  painType: PainTypeClassification; // Fixed taxonomy type, from rules and refined by the LLM relevance pass
+  aspects: string[]; // Product aspects the complaint targets (e.g. 'battery', 'billing')
+  safetyFlags: SafetyFlag[]; // Reasons to treat this item's LLM handling with suspicion
 }
 
-export class PainPointExtractor {
-  // Keywords that indicate complaints or pain points
-  private static readonly COMPLAINT_KEYWORDS = [
-    // Direct complaints
-    'hate', 'awful', 'terrible', 'worst', 'horrible', 'annoying', 'frustrating',
-    'useless', 'broken', 'buggy', 'slow', 'expensive', 'overpriced',
-    
-    // Problem indicators
-    'problem', 'issue', 'bug', 'error', 'fail', 'crash', 'freeze', 'glitch',
-    'doesn\'t work', 'not working', 'stopped working', 'broken',
-    
-    // Negative experiences
-    'disappointed', 'regret', 'waste', 'scam', 'rip off', 'avoid', 'never again',
-    'poor quality', 'bad experience', 'customer service', 'support',
-    
-    // Improvement needs
-    'should fix', 'needs to', 'wish they would', 'hope they', 'better if',
-    'why can\'t', 'when will', 'still waiting'
-  ];
-
-  // Negative sentiment patterns
-  private static readonly NEGATIVE_PATTERNS = [
-    /why (does|is|are|do) .+ (so|such) .+ (bad|awful|terrible|slow|expensive)/i,
-    /can't believe .+ (still|doesn't|won't)/i,
-    /(hate|dislike) (how|that|when) .+/i,
-    /wish .+ (would|could|didn't) .+/i,
-    /(sick|tired) (of|from) .+/i,
-    /what's wrong with .+/i,
-    /(anyone else|does anyone) (hate|dislike|have problems) .+/i
-  ];
+export interface ExtractionOptions extends EngagementOptions {
+  rulePack?: string; // Rule pack deciding what counts as a complaint (config default when unset)
+}
+
+const relevanceItem = schema.object({
+  id: schema.integer(),
+  relevant: schema.boolean(),
+  pain_point: schema.optional(schema.string()),
+  pain_type: schema.optional(schema.string()),
+});
 
+const translationItem = schema.object({
+  id: schema.integer(),
+  text: schema.string(),
+});
+
+export class PainPointExtractor {
   /**
-   * Extract pain points from Reddit posts
+   * Extract pain points from normalized source documents
    */
-  static extractPainPoints(posts: RedditPost[]): PainPoint[] {
+  static extractPainPoints(documents: SourceDocument[], options: ExtractionOptions = {}): PainPoint[] {
     const painPoints: PainPoint[] = [];
+    const rulePacks = new Map<Language, CompiledRulePack>();
+    const rulePackFor = (language: Language) => {
+      if (!rulePacks.has(language)) {
+        rulePacks.set(language, getRulePackForLanguage(options.rulePack, language));
+      }
+      return rulePacks.get(language)!;
+    };
+
+    // Baselines come from every post and comment fetched, not just the ones that look like complaints
+    const postEngagement = (doc: SourceDocument): EngagementInput => ({
+      community: doc.community, kind: 'post', score: doc.score, comments: doc.commentCount, timestamp: doc.timestamp, upvoteRatio: doc.upvoteRatio,
+    });
+    const replyEngagement = (doc: SourceDocument, reply: SourceReply): EngagementInput => ({
+      community: doc.community, kind: 'comment', score: reply.score, comments: 0, timestamp: reply.timestamp,
+    });
+    const scoreEngagement = createEngagementScorer(documents.flatMap(doc => [
+      postEngagement(doc),
+      ...this.flattenReplies(doc.replies || []).map(reply => replyEngagement(doc, reply)),
+    ]), options);
+
+    for (const doc of documents) {
+      const docEngagement = scoreEngagement(postEngagement(doc));
+      // Titles are too short to tell on their own, so the post's language covers both
+      const docLanguage = detectLanguage(`${doc.title}\n${doc.body}`).language;
+      const rulePack = rulePackFor(docLanguage);
 
-    for (const post of posts) {
       // Check title for pain points
-      if (this.containsPainPoint(post.title)) {
+      const titleMatch = matchRules(doc.title, rulePack);
+      if (titleMatch.matched) {
         painPoints.push({
-          id: `${post.id}_title`,
-          content: post.title,
+          id: `${doc.source}_${doc.id}_title`,
+          content: doc.title,
+          originalText: doc.title,
+          language: docLanguage,
+          translated: false,
+          sourceText: doc.title,
+          span: { start: 0, end: doc.title.length },
           source: 'title',
-          score: post.score,
-          num_comments: post.num_comments,
-          subreddit: post.subreddit,
-          url: post.url,
-          created_utc: post.created_utc,
-          engagementScore: this.calculateEngagementScore(post.score, post.num_comments),
+          sourceId: doc.source,
+          score: doc.score,
+          num_comments: doc.commentCount,
+          subreddit: doc.community,
+          url: doc.url,
+          created_utc: doc.timestamp,
+          author: doc.author,
+          engagementScore: docEngagement.score,
+          engagement: docEngagement,
+          matchedRules: titleMatch.rules,
+          sentiment: scoreSentiment(doc.title),
+          duplicateCount: 0,
+          painType: classifyPainType(doc.title),
+          aspects: tagAspects(doc.title),
+          safetyFlags: this.detectSafetyFlags(doc.title),
         });
       }
 
       // Check post content for pain points
-      if (post.selftext && this.containsPainPoint(post.selftext)) {
+      const bodyMatch = doc.body ? matchRules(doc.body, rulePack) : undefined;
+      if (bodyMatch?.matched) {
+        const { content, span } = extractComplaintSpan(doc.body, rulePack);
         painPoints.push({
-          id: `${post.id}_post`,
-          content: this.extractRelevantText(post.selftext),
+          id: `${doc.source}_${doc.id}_post`,
+          content,
+          originalText: content,
+          language: docLanguage,
+          translated: false,
+          sourceText: doc.body,
+          span,
           source: 'post',
-          score: post.score,
-          num_comments: post.num_comments,
-          subreddit: post.subreddit,
-          url: post.url,
-          created_utc: post.created_utc,
-          engagementScore: this.calculateEngagementScore(post.score, post.num_comments),
+          sourceId: doc.source,
+          score: doc.score,
+          num_comments: doc.commentCount,
+          subreddit: doc.community,
+          url: doc.url,
+          created_utc: doc.timestamp,
+          author: doc.author,
+          engagementScore: docEngagement.score,
+          engagement: docEngagement,
+          matchedRules: bodyMatch.rules,
+          sentiment: scoreSentiment(content),
+          duplicateCount: 0,
+          painType: classifyPainType(content),
+          aspects: tagAspects(content),
+          safetyFlags: this.detectSafetyFlags(doc.body),
         });
       }
 
-      // Process comments if available
-      if (post.comments) {
-        for (const comment of post.comments) {
-          if (this.containsPainPoint(comment.body)) {
+      // Process comments and their replies if available
+      if (doc.replies) {
+        for (const reply of this.flattenReplies(doc.replies)) {
+          const replyLanguage = detectLanguage(reply.body, docLanguage).language;
+          const replyRulePack = rulePackFor(replyLanguage);
+          const replyMatch = matchRules(reply.body, replyRulePack);
+          if (replyMatch.matched) {
+            const { content, span } = extractComplaintSpan(reply.body, replyRulePack);
+            const engagement = scoreEngagement(replyEngagement(doc, reply));
             painPoints.push({
-              id: `${comment.id}_comment`,
-              content: this.extractRelevantText(comment.body),
+              id: `${doc.source}_${reply.id}_comment`,
+              content,
+              originalText: content,
+              language: replyLanguage,
+              translated: false,
+              sourceText: reply.body,
+              span,
               source: 'comment',
-              score: comment.score,
+              sourceId: doc.source,
+              score: reply.score,
               num_comments: 0,
-              subreddit: post.subreddit,
-              url: post.url,
-              created_utc: comment.created_utc,
-              engagementScore: this.calculateEngagementScore(comment.score, 0),
+              subreddit: doc.community,
+              url: doc.url,
+              created_utc: reply.timestamp,
+              author: reply.author,
+              engagementScore: engagement.score,
+              engagement,
+              matchedRules: replyMatch.rules,
+              sentiment: scoreSentiment(content),
+              duplicateCount: 0,
+              painType: classifyPainType(content),
+              aspects: tagAspects(content),
+              safetyFlags: this.detectSafetyFlags(reply.body),
             });
           }
         }
@@ -105,60 +191,43 @@ export class PainPointExtractor {
   }
 
   /**
-   * Check if text contains pain point indicators
-   */
-  private static containsPainPoint(text: string): boolean {
-    const lowerText = text.toLowerCase();
-    
-    // Check for complaint keywords
-    const hasComplaintKeywords = this.COMPLAINT_KEYWORDS.some(keyword => 
-      lowerText.includes(keyword.toLowerCase())
-    );
-
-    // Check for negative patterns
-    const hasNegativePatterns = this.NEGATIVE_PATTERNS.some(pattern => 
-      pattern.test(text)
-    );
-
-    // Additional checks for question-based complaints
-    const isComplaintQuestion = (
-      lowerText.includes('?') && 
-      (lowerText.includes('why') || lowerText.includes('how')) &&
-      (lowerText.includes('bad') || lowerText.includes('slow') || lowerText.includes('broken'))
-    );
-
-    return hasComplaintKeywords || hasNegativePatterns || isComplaintQuestion;
-  }
-
-  /**
-   * Extract relevant text snippet (first 200 chars for long posts)
+   * Flatten a reply tree into a list (parents before their replies)
    */
-  private static extractRelevantText(text: string): string {
-    const cleanText = text.replace(/\n+/g, ' ').trim();
-    return cleanText.length > 200 ? cleanText.substring(0, 200) + '...' : cleanText;
+  private static flattenReplies(replies: SourceReply[]): SourceReply[] {
+    return replies.flatMap(reply => [
+      reply,
+      ...(reply.replies ? this.flattenReplies(reply.replies) : []),
+    ]);
   }
 
   /**
-   * Calculate engagement score based on upvotes and comments
+   * Flag text that tries to instruct the model
    */
-  private static calculateEngagementScore(score: number, numComments: number): number {
-    // Weight comments higher as they indicate engagement
-    return score + (numComments * 2);
+  private static detectSafetyFlags(text: string): SafetyFlag[] {
+    return findInjectionPhrases(text).length > 0 ? ['injection-phrasing'] : [];
   }
 
   /**
-   * Remove duplicates and sort by engagement score
+   * Merge near-duplicates into their most engaged copy and sort by engagement score
    */
   private static deduplicateAndSort(painPoints: PainPoint[]): PainPoint[] {
-    // Simple deduplication based on similar content
-    const seen = new Set<string>();
-    const deduplicated = painPoints.filter(point => {
-      const key = point.content.toLowerCase().substring(0, 50);
-      if (seen.has(key)) {
-        return false;
-      }
-      seen.add(key);
-      return true;
+    const clusters = clusterNearDuplicates(painPoints.map(point => point.content));
+    const deduplicated = clusters.map(cluster => {
+      const [representative, ...duplicates] = cluster
+        .map(index => painPoints[index])
+        .sort((a, b) => b.engagementScore - a.engagementScore);
+
+      // Copies in other threads are independent engagement with the same complaint; a copy in the
+      // same thread (the title repeated in the body, a quoting reply) is engagement already counted
+      const extraEngagement = duplicates
+        .filter(duplicate => duplicate.url !== representative.url)
+        .reduce((sum, duplicate) => sum + duplicate.engagementScore, 0);
+
+      return {
+        ...representative,
+        duplicateCount: duplicates.length,
+        engagementScore: representative.engagementScore + extraEngagement,
+      };
     });
 
     // Sort by engagement score (highest first)
@@ -193,13 +262,13 @@ export class PainPointExtractor {
    * AI-powered relevance filter for pain points
    * Only keeps pain points that are actually about the search term
    */
-  static async aiFilterRelevantPainPoints(painPoints: PainPoint[], searchTerm: string): Promise<PainPoint[]> {
+  static async aiFilterRelevantPainPoints(painPoints: PainPoint[], searchTerm: string, fallbacks?: FallbackLog): Promise<PainPoint[]> {
     if (!painPoints.length) return [];
     // Dynamically import to avoid issues in environments without the package
-    const { GoogleGenerativeAI } = await import('@google/generative-ai');
-    const { config } = await import('./config');
-    const genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+    const { createLlmProvider, isLlmStepEnabled } = await import('./llm');
+    // Offline: the keyword and rule-pack filtering already applied is all there is
+    if (!isLlmStepEnabled('relevance')) return painPoints;
+    const llm = createLlmProvider('relevance');
 
     // Batch up to 10 pain points per prompt for efficiency
     const batchSize = 10;
@@ -211,43 +280,105 @@ export class PainPointExtractor {
     const relevantPainPoints: PainPoint[] = [];
 
     for (const batch of batches) {
-      const prompt = `You are an expert at identifying product complaints. For each Reddit post/comment below, answer:
+      const prompt = `You are an expert at identifying product complaints. ${UNTRUSTED_DATA_NOTICE}
+
+For each Reddit post/comment item below (items may be in any language), answer:
 1. Is this complaint actually about the product/topic "${searchTerm}"? (yes/no)
-2. If yes, extract or summarize the pain point in 1-2 sentences.
+2. If yes, extract or summarize the pain point in 1-2 sentences, using the item's own wording and language.
 3. If no, return "irrelevant".
+4. Classify the kind of pain as one of: ${PAIN_TYPES.join(', ')}, other.
 
-Return a JSON array of objects like:
-[{ "relevant": true/false, "pain_point": "..." }]
+Return JSON with exactly one result per item id, like:
+{ "results": [{ "id": 1, "relevant": true, "pain_point": "...", "pain_type": "defect" }] }
 
-Posts:
-${batch.map((p, idx) => `[${idx+1}] ${p.content}`).join('\n')}
+${formatDataBlock(batch.map((p, idx) => ({ id: idx + 1, text: p.content })))}
 `;
 
       try {
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        let text = response.text().trim();
-        // Remove code block if present
-        if (text.startsWith('```json')) {
-          text = text.replace(/```json|```/g, '').trim();
-        } else if (text.startsWith('```')) {
-          text = text.replace(/```/g, '').trim();
-        }
-        const aiResults = JSON.parse(text);
-        for (let i = 0; i < aiResults.length; i++) {
-          if (aiResults[i].relevant === true) {
-            relevantPainPoints.push({
-              ...batch[i],
-              content: aiResults[i].pain_point || batch[i].content
-            });
-          }
-        }
+        const ids = batch.map((_, idx) => idx + 1);
+        const { results } = await generateStructured(llm, prompt, schema.object({ results: keyedResults(relevanceItem, ids) }));
+        const answers = new Map(results.map(result => [result.id, result]));
+
+        batch.forEach((point, i) => {
+          const answer = answers.get(i + 1)!;
+          if (!answer.relevant) return;
+
+          // Keep the original text when the rewrite no longer refers to it
+          const rewrite = typeof answer.pain_point === 'string' ? answer.pain_point.trim() : '';
+          const consistent = !rewrite || isRewriteConsistent(point.sourceText, rewrite);
+          relevantPainPoints.push({
+            ...point,
+            content: consistent && rewrite ? rewrite : point.content,
+            painType: isPainType(answer.pain_type)
+              ? { type: answer.pain_type, confidence: 1, origin: 'llm' }
+              : point.painType,
+            safetyFlags: consistent ? point.safetyFlags : [...point.safetyFlags, 'inconsistent-rewrite'],
+          });
+        });
       } catch (error) {
         console.error('AI relevance filter failed, falling back to keyword filter for this batch:', error);
-        // Fallback: keep all batch pain points
-        relevantPainPoints.push(...batch);
+        fallbacks?.record('relevance', 'keyword filter', error, batch.length);
+        // Fallback: keep all batch pain points, flagged as unverified
+        relevantPainPoints.push(...batch.map(point => ({
+          ...point,
+          safetyFlags: [...point.safetyFlags, 'unverified-relevance' as const],
+        })));
       }
     }
     return relevantPainPoints;
   }
+
+  /**
+   * Translate non-English pain points to English, keeping the original in originalText.
+   * Sentiment, rule-based pain types and aspects are rescored on the translation, since their lexicons are English.
+   */
+  static async translateToEnglish(painPoints: PainPoint[], fallbacks?: FallbackLog): Promise<PainPoint[]> {
+    const foreign = painPoints.filter(point => point.language !== 'en' && !point.translated);
+    if (!foreign.length) return painPoints;
+    const { createLlmProvider, isLlmStepEnabled } = await import('./llm');
+    if (!isLlmStepEnabled('translation')) return painPoints;
+    const llm = createLlmProvider('translation');
+
+    const translated = new Map<string, PainPoint>();
+    const batchSize = 10;
+    for (let i = 0; i < foreign.length; i += batchSize) {
+      const batch = foreign.slice(i, i + batchSize);
+      const prompt = `Translate each customer complaint item below into natural English. Keep product names, numbers and placeholders such as [USER_1] unchanged.
+${UNTRUSTED_DATA_NOTICE}
+
+Return JSON with exactly one translation per item id, like:
+{ "translations": [{ "id": 1, "text": "The battery dies after two hours." }] }
+
+${formatDataBlock(batch.map((point, idx) => ({ id: idx + 1, text: point.content, attributes: { language: LANGUAGE_NAMES[point.language] } })))}
+`;
+
+      try {
+        const ids = batch.map((_, idx) => idx + 1);
+        const { translations } = await generateStructured(llm, prompt, schema.object({ translations: keyedResults(translationItem, ids) }));
+        const texts = new Map(translations.map(translation => [translation.id, translation.text.trim()]));
+
+        batch.forEach((point, index) => {
+          const translation = texts.get(index + 1)!;
+          // An empty translation or one carrying instructions is discarded, like an inconsistent rewrite
+          if (!translation || findInjectionPhrases(translation).length > 0) {
+            translated.set(point.id, { ...point, safetyFlags: [...point.safetyFlags, 'inconsistent-rewrite'] });
+            return;
+          }
+          translated.set(point.id, {
+            ...point,
+            content: translation,
+            translated: true,
+            sentiment: scoreSentiment(translation),
+            painType: point.painType.origin === 'llm' ? point.painType : classifyPainType(translation),
+            aspects: Array.from(new Set([...point.aspects, ...tagAspects(translation)])),
+          });
+        });
+      } catch (error) {
+        console.error('Translation failed, keeping original language for this batch:', error);
+        fallbacks?.record('translation', 'original language', error, batch.length);
+      }
+    }
+
+    return painPoints.map(point => translated.get(point.id) ?? point);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+// Fixed pain-type taxonomy, independent of the free-form categories the LLM invents per analysis
+
+export const PAIN_TYPES = [
+  'defect',
+  'missing-feature',
+  'usability',
+  'performance',
+  'pricing',
+  'support',
+  'trust-privacy',
+] as const;
+
+export type PainType = typeof PAIN_TYPES[number] | 'other';
+
+export const PAIN_TYPE_LABELS: Record<PainType, string> = {
+  defect: 'Defect',
+  'missing-feature': 'Missing feature',
+  usability: 'Usability',
+  performance: 'Performance',
+  pricing: 'Pricing / value',
+  support: 'Support / service',
+  'trust-privacy': 'Trust / privacy',
+  other: 'Other',
+};
+
+export interface PainTypeClassification {
+  type: PainType;
+  confidence: number; // Share of the matched cues that point at the chosen type (1 when the LLM chose it)
+  origin: 'rules' | 'llm';
+}
+
+// Cues per type; each matching cue adds one vote. Order breaks ties.
+const PAIN_TYPE_CUES: Record<typeof PAIN_TYPES[number], RegExp[]> = {
+  defect: [
+    /\bbug(s|gy)?\b/i, /\bbroken\b/i, /\bcrash/i, /\bglitch/i, /\berrors?\b/i, /\bfail(s|ed|ing|ure)?\b/i,
+    /\b(doesn't|does not|won't|isn't) work/i, /\b(not|stopped) working\b/i, /\bdefective\b/i, /\bfreez(e|es|ing)\b/i,
+    /\bbricked\b/i, /\bdead pixel/i, /\bfell apart\b/i,
+  ],
+  'missing-feature': [
+    /\bwish (it|they|there|i could)\b/i, /\bno (option|way|setting) to\b/i, /\bmissing\b/i, /\black(s|ing)?\b/i,
+    /\b(doesn't|does not|won't) (have|support|let)\b/i, /\bshould (add|have|support|let)\b/i, /\bplease add\b/i,
+    /\bfeature request\b/i, /\bwhy can't (i|we|you)\b/i, /\bwould be nice\b/i, /\b(removed|took away) (the )?(option|feature)/i,
+  ],
+  usability: [
+    /\bconfusing\b/i, /\bhard to (use|find|navigate|read|understand)\b/i, /\bunintuitive\b/i, /\bclunky\b/i,
+    /\btoo many (clicks|steps|menus)\b/i, /\b(ui|ux|interface|layout|menus?)\b/i, /\bcan't find\b/i,
+    /\bcomplicated\b/i, /\bcumbersome\b/i,
+  ],
+  performance: [
+    /\bslow(ly|er|ness)?\b/i, /\blag(s|gy|ging)?\b/i, /\btakes (forever|ages)\b/i, /\bloading\b/i, /\bbattery (drain|life)\b/i,
+    /\boverheat/i, /\bmemory\b/i, /\bstutter/i, /\bfps\b/i, /\bthrottl/i, /\blatency\b/i, /\btimes? out\b/i,
+  ],
+  pricing: [
+    /\bprice[ds]?\b/i, /\bpricing\b/i, /\bexpensive\b/i, /\boverpriced\b/i, /\bcosts?\b/i, /\bsubscription\b/i,
+    /\bfees?\b/i, /\bcharged?\b/i, /\brefund/i, /\bmoney\b/i, /\bworth it\b/i, /\bpaywall/i, /\$\d/,
+  ],
+  support: [
+    /\bcustomer (service|support|care)\b/i, /\bsupport (team|ticket|agent)s?\b/i, /\b(agent|rep|representative)s?\b/i,
+    /\btickets?\b/i, /\bno (response|reply)\b/i, /\bnever (replied|responded|answered|got back)\b/i,
+    /\bservice center\b/i, /\bon hold\b/i, /\brude\b/i, /\bwarranty\b/i, /\bdealer(ship)?\b/i,
+  ],
+  'trust-privacy': [
+    /\bprivacy\b/i, /\bdata (collection|sharing|breach|leak)/i, /\btrack(s|ing|ed)\b/i, /\bspy(ing|ware)?\b/i,
+    /\bscam/i, /\bshady\b/i, /\bsold (my|our) (data|info)/i, /\bhack(ed|s)?\b/i, /\bsecurity\b/i,
+    /\bmisleading\b/i, /\blied\b/i, /\bfalse advertising\b/i, /\bbait and switch\b/i,
+  ],
+};
+
+export function isPainType(value: unknown): value is PainType {
+  return typeof value === 'string' && (value === 'other' || (PAIN_TYPES as readonly string[]).includes(value));
+}
+
+/**
+ * Rule-based classification; text with no cues at all is 'other'
+ */
+export function classifyPainType(text: string): PainTypeClassification {
+  let best: PainType = 'other';
+  let bestVotes = 0;
+  let totalVotes = 0;
+
+  for (const type of PAIN_TYPES) {
+    const votes = PAIN_TYPE_CUES[type].filter(cue => cue.test(text)).length;
+    totalVotes += votes;
+    if (votes > bestVotes) {
+      best = type;
+      bestVotes = votes;
+    }
+  }
+
+  return {
+    type: best,
+    confidence: totalVotes > 0 ? Math.round((bestVotes / totalVotes) * 100) / 100 : 0,
+    origin: 'rules',
+  };
+}
+
+/**
+ * Count pain types across a set of pain points
+ */
+export function countPainTypes(points: Array<{ painType: PainTypeClassification }>): Partial<Record<PainType, number>> {
+  return points.reduce((counts, point) => {
+    counts[point.painType.type] = (counts[point.painType.type] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<PainType, number>>);
+}
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { config } from './config';
+import type { RedditPost } from './reddit-client';
+
+// Disk-backed cache of normalized search results, one JSON file per search
+export interface PostCacheKey {
+  strategy: string;
+  query: string;
+  subreddit?: string;
+  time?: string;
+  sort?: string;
+}
+
+interface PostCacheEntry {
+  key: PostCacheKey;
+  posts: RedditPost[];
+  fetchedAt: number; // Epoch ms of the last (full or incremental) fetch
+  fullFetchedAt?: number; // Epoch ms of the last full fetch (missing in entries written before it was tracked)
+  resultSize?: number; // Posts the last full fetch returned; incremental refreshes never grow past it
+  latestCreatedUtc: number; // Newest post in the entry, where incremental refreshes resume
+}
+
+class PostCache {
+  private cacheDir: string;
+
+  constructor() {
+    this.cacheDir = config.cache.dir || path.join(os.tmpdir(), 'painpointer-cache');
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+    this.cleanupOld();
+  }
+
+  private getFilePath(key: PostCacheKey): string {
+    const id = JSON.stringify([key.strategy, key.query.toLowerCase(), key.subreddit?.toLowerCase(), key.time, key.sort]);
+    return path.join(this.cacheDir, `${crypto.createHash('sha256').update(id).digest('hex').substring(0, 32)}.json`);
+  }
+
+  get(key: PostCacheKey): PostCacheEntry | undefined {
+    try {
+      const filePath = this.getFilePath(key);
+      if (!fs.existsSync(filePath)) {
+        return undefined;
+      }
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as PostCacheEntry;
+    } catch (error) {
+      console.error('Failed to read post cache entry:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store the result of a full fetch
+   */
+  set(key: PostCacheKey, posts: RedditPost[]) {
+    const now = Date.now();
+    this.write({ key, posts, fetchedAt: now, fullFetchedAt: now, resultSize: posts.length, latestCreatedUtc: this.latestCreatedUtc(posts) });
+  }
+
+  /**
+   * Store an incrementally refreshed entry, keeping the full fetch it was built on
+   */
+  refresh(entry: PostCacheEntry, posts: RedditPost[]) {
+    this.write({ ...entry, posts, fetchedAt: Date.now(), latestCreatedUtc: Math.max(entry.latestCreatedUtc, this.latestCreatedUtc(posts)) });
+  }
+
+  private latestCreatedUtc(posts: RedditPost[]): number {
+    return posts.reduce((latest, post) => Math.max(latest, post.created_utc), 0);
+  }
+
+  private write(entry: PostCacheEntry) {
+    const key = entry.key;
+    try {
+      fs.writeFileSync(this.getFilePath(key), JSON.stringify(entry));
+    } catch (error) {
+      console.error('Failed to write post cache entry:', error);
+    }
+  }
+
+  isFresh(entry: PostCacheEntry): boolean {
+    return Date.now() - entry.fetchedAt < config.cache.ttlMinutes * 60 * 1000;
+  }
+
+  /**
+   * Whether a stale entry may be topped up with new posts rather than refetched
+   */
+  canRefreshIncrementally(entry: PostCacheEntry): boolean {
+    return entry.fullFetchedAt !== undefined && entry.resultSize !== undefined &&
+      Date.now() - entry.fullFetchedAt < config.cache.fullRefreshHours * 60 * 60 * 1000;
+  }
+
+  // Entries past retention are too old to refresh incrementally
+  cleanupOld() {
+    try {
+      const now = Date.now();
+      for (const file of fs.readdirSync(this.cacheDir)) {
+        if (!file.endsWith('.json')) continue;
+        const filePath = path.join(this.cacheDir, file);
+        if (now - fs.statSync(filePath).mtimeMs > config.cache.retentionDays * 24 * 60 * 60 * 1000) {
+          fs.unlinkSync(filePath);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to cleanup old post cache entries:', error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const postCache = new PostCache();
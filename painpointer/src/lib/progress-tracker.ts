@@ -44,6 +44,20 @@ class ProgressTracker {
     }
   }
 
+  /**
+   * Replace only the details line of the current state (e.g. throttling notices)
+   */
+  updateDetails(id: string, details: string) {
+    const current = this.getProgress(id);
+    if (!current) return;
+
+    try {
+      fs.writeFileSync(this.getFilePath(id), JSON.stringify({ ...current, details, timestamp: Date.now() }));
+    } catch (error) {
+      console.error('Failed to write progress file:', error);
+    }
+  }
+
   getProgress(id: string): ProgressState | undefined {
     try {
       const filePath = this.getFilePath(id);
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { exclusionSuffix, expandQueries, parseQueryExpansionOptions } from './query-expansion';
+
+describe('parseQueryExpansionOptions', () => {
+  it('accepts a configured domain', () => {
+    expect(parseQueryExpansionOptions({ domain: 'software' })).toEqual({ domain: 'software' });
+  });
+
+  it('rejects unknown domains, including inherited object keys', () => {
+    expect(() => parseQueryExpansionOptions({ domain: 'gardening' })).toThrow('queryExpansion.domain must be one of');
+    expect(() => parseQueryExpansionOptions({ domain: 'constructor' })).toThrow('queryExpansion.domain must be one of');
+  });
+
+  it('rejects malformed lists', () => {
+    expect(() => parseQueryExpansionOptions({ exclusions: 'review' })).toThrow('queryExpansion.exclusions must be an array of strings');
+  });
+});
+
+describe('expandQueries', () => {
+  it('searches brand-qualified aliases', async () => {
+    const queries = (await expandQueries('Tesla Model 3', { llmSynonyms: false })).map(expanded => expanded.query);
+    expect(queries).toContain('tesla m3');
+    expect(queries).not.toContain('M3');
+  });
+
+  it('ignores inherited object keys as search terms', async () => {
+    await expect(expandQueries('constructor', { llmSynonyms: false })).resolves.not.toHaveLength(0);
+  });
+
+  it('appends exclusions to every query', async () => {
+    const queries = await expandQueries('ps5', { exclusions: ['giveaway', '-review'], llmSynonyms: false });
+    expect(queries.every(expanded => expanded.query.endsWith(' -giveaway -review'))).toBe(true);
+    expect(exclusionSuffix({ exclusions: ['giveaway'] })).toBe(' -giveaway');
+  });
+});
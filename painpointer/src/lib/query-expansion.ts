@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import { config } from './config';
+import { isLanguage, Language, SUPPORTED_LANGUAGES } from './language';
+
+// Configuration-driven expansion of a search term into complaint-focused queries
+
+export interface QueryExpansionConfig {
+  aliases: Record<string, string[]>; // Lowercase term -> alternative names and abbreviations
+  templates: Record<string, string[]>; // Domain -> complaint phrase templates ({term} is substituted)
+  localizedTemplates: Partial<Record<Language, string[]>>; // Language -> general complaint templates in that language
+  exclusions: string[]; // Words excluded from every search query of every strategy (e.g. "review", "giveaway")
+}
+
+export interface QueryExpansionOptions {
+  domain?: string; // Domain template set searched ahead of the general templates
+  aliases?: string[]; // Extra aliases for this analysis
+  exclusions?: string[]; // Extra exclusions for this analysis
+  llmSynonyms?: boolean; // Ask the LLM for additional names for the term
+  languages?: Language[]; // Non-English languages to also search in, with localized templates
+}
+
+export interface ExpandedQuery {
+  query: string;
+  origin: 'template' | 'alias' | 'synonym';
+  posts?: number; // Posts the query contributed, filled in after searching
+}
+
+const DEFAULT_EXPANSION_CONFIG: QueryExpansionConfig = {
+  aliases: {
+    'tesla model 3': ['model 3', 'tesla m3'],
+    'tesla model y': ['model y', 'tesla my'],
+    'windows 11': ['win11', 'win 11'],
+    'playstation 5': ['ps5'],
+    'iphone 15': ['ip15'],
+  },
+  templates: {
+    general: [
+      '{term} problems',
+      '{term} issues',
+      '{term} complaints',
+      '{term} broken',
+      '{term} disappointed',
+      '{term} hate',
+      '{term} sucks',
+      '{term} terrible',
+      '{term} awful',
+      '{term} worst',
+    ],
+    software: ['{term} bug', '{term} crash', '{term} update broke', '{term} not loading'],
+    hardware: ['{term} defective', '{term} battery', '{term} overheating', '{term} warranty'],
+    automotive: ['{term} recall', '{term} service center', '{term} repair', '{term} rattle'],
+    subscription: ['{term} cancel', '{term} price increase', '{term} billing', '{term} refund'],
+  },
+  localizedTemplates: {
+    de: ['{term} probleme', '{term} fehler', '{term} enttäuscht', '{term} funktioniert nicht'],
+    fr: ['{term} problème', '{term} bug', '{term} déçu', '{term} ne marche pas'],
+    es: ['{term} problemas', '{term} falla', '{term} decepcionado', '{term} no funciona'],
+    pt: ['{term} problemas', '{term} defeito', '{term} decepcionado', '{term} não funciona'],
+  },
+  exclusions: [],
+};
+
+let loadedConfig: QueryExpansionConfig | undefined;
+
+/**
+ * Defaults merged with the optional JSON file at QUERY_EXPANSION_CONFIG
+ */
+export function getQueryExpansionConfig(): QueryExpansionConfig {
+  if (loadedConfig) return loadedConfig;
+
+  loadedConfig = DEFAULT_EXPANSION_CONFIG;
+  if (config.queryExpansion.configPath) {
+    try {
+      const fileConfig = JSON.parse(fs.readFileSync(config.queryExpansion.configPath, 'utf8')) as Partial<QueryExpansionConfig>;
+      loadedConfig = {
+        aliases: { ...DEFAULT_EXPANSION_CONFIG.aliases, ...fileConfig.aliases },
+        templates: { ...DEFAULT_EXPANSION_CONFIG.templates, ...fileConfig.templates },
+        localizedTemplates: { ...DEFAULT_EXPANSION_CONFIG.localizedTemplates, ...fileConfig.localizedTemplates },
+        exclusions: fileConfig.exclusions ?? DEFAULT_EXPANSION_CONFIG.exclusions,
+      };
+    } catch (error) {
+      console.error(`Failed to load query expansion config from ${config.queryExpansion.configPath}:`, error);
+    }
+  }
+  return loadedConfig;
+}
+
+/**
+ * Validate the queryExpansion block of an analysis request
+ */
+export function parseQueryExpansionOptions(input: unknown): QueryExpansionOptions | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object') {
+    throw new Error('queryExpansion must be an object');
+  }
+
+  const options = input as Record<string, unknown>;
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  if (options.domain !== undefined && !(typeof options.domain === 'string' && Object.hasOwn(getQueryExpansionConfig().templates, options.domain))) {
+    throw new Error(`queryExpansion.domain must be one of: ${Object.keys(getQueryExpansionConfig().templates).join(', ')}`);
+  }
+  if (options.aliases !== undefined && !isStringArray(options.aliases)) {
+    throw new Error('queryExpansion.aliases must be an array of strings');
+  }
+  if (options.exclusions !== undefined && !isStringArray(options.exclusions)) {
+    throw new Error('queryExpansion.exclusions must be an array of strings');
+  }
+  if (options.llmSynonyms !== undefined && typeof options.llmSynonyms !== 'boolean') {
+    throw new Error('queryExpansion.llmSynonyms must be a boolean');
+  }
+  if (options.languages !== undefined && !(Array.isArray(options.languages) && options.languages.every(isLanguage))) {
+    throw new Error(`queryExpansion.languages must be an array of: ${SUPPORTED_LANGUAGES.join(', ')}`);
+  }
+
+  return options as QueryExpansionOptions;
+}
+
+/**
+ * Configured and per-analysis exclusions as a search suffix (" -review -giveaway"), appended to every search query
+ */
+export function exclusionSuffix(options: QueryExpansionOptions = {}): string {
+  const exclusions = [...getQueryExpansionConfig().exclusions, ...(options.exclusions || [])];
+  return exclusions.map(word => ` -${word.replace(/^-/, '')}`).join('');
+}
+
+/**
+ * Expand a term into complaint queries. Domain templates come first, then the strongest templates of each
+ * requested language, then aliases and synonyms (searched on their own and with the strongest general
+ * templates), then the general templates, so the most specific queries survive the fan-out cap.
+ */
+export async function expandQueries(
+  searchTerm: string,
+  options: QueryExpansionOptions = {},
+  suggestSynonyms?: (term: string) => Promise<string[]>
+): Promise<ExpandedQuery[]> {
+  const expansionConfig = getQueryExpansionConfig();
+
+  const generalTemplates = expansionConfig.templates.general || [];
+  const domainTemplates = options.domain && options.domain !== 'general'
+    ? expansionConfig.templates[options.domain] || []
+    : [];
+
+  const aliases = [
+    ...(Object.hasOwn(expansionConfig.aliases, searchTerm.toLowerCase()) ? expansionConfig.aliases[searchTerm.toLowerCase()] : []),
+    ...(options.aliases || []),
+  ];
+
+  const useSynonyms = options.llmSynonyms ?? config.queryExpansion.llmSynonyms;
+  const synonyms = useSynonyms && suggestSynonyms ? await suggestSynonyms(searchTerm) : [];
+
+  const suffix = exclusionSuffix(options);
+  const fill = (template: string, term: string) => template.replace(/\{term\}/g, term);
+
+  const queries: ExpandedQuery[] = domainTemplates.map(template => ({ query: fill(template, searchTerm), origin: 'template' }));
+  for (const language of options.languages || []) {
+    const localized = language === 'en' ? [] : expansionConfig.localizedTemplates[language] || [];
+    queries.push(...localized.slice(0, 2).map(template => ({ query: fill(template, searchTerm), origin: 'template' as const })));
+  }
+  for (const [names, origin] of [[aliases, 'alias'], [synonyms, 'synonym']] as const) {
+    for (const name of names) {
+      queries.push({ query: name, origin });
+      queries.push(...generalTemplates.slice(0, 2).map(template => ({ query: fill(template, name), origin })));
+    }
+  }
+  queries.push(...generalTemplates.map(template => ({ query: fill(template, searchTerm), origin: 'template' as const })));
+
+  // Drop repeats (aliases often overlap synonyms) and cap the fan-out
+  const seen = new Set<string>();
+  return queries
+    .filter(({ query }) => {
+      const key = query.toLowerCase();
+      if (key === searchTerm.toLowerCase() || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, config.queryExpansion.maxQueries)
+    .map(expanded => ({ ...expanded, query: `${expanded.query}${suffix}` }));
+}
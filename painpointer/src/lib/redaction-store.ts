@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { config } from './config';
+
+const RETENTION_MS = config.redaction.retentionDays * 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Server-side store of redaction mappings (placeholder -> original), never sent to clients or LLMs
+class RedactionStore {
+  private storeDir: string;
+  private lastCleanupAt = 0;
+
+  constructor() {
+    this.storeDir = config.redaction.storeDir || path.join(os.tmpdir(), 'painpointer-redactions');
+    if (!config.redaction.storeDir) {
+      console.warn(`⚠️ PAINPOINTER_REDACTION_DIR is not set: redaction mappings (original PII) are stored in the shared temp directory ${this.storeDir}`);
+    }
+    if (!fs.existsSync(this.storeDir)) {
+      fs.mkdirSync(this.storeDir, { recursive: true, mode: 0o700 });
+    }
+    this.cleanupOld();
+  }
+
+  // Lookups come from clients, so ids are hashed rather than used as file names
+  private getFilePath(reviewId: string): string {
+    return path.join(this.storeDir, `${crypto.createHash('sha256').update(reviewId).digest('hex').substring(0, 32)}.json`);
+  }
+
+  /**
+   * Store a mapping under a new server-generated review id. Existing mappings are never overwritten,
+   * so a client can't replace the originals reviewers rely on.
+   */
+  save(mapping: Record<string, string>): string | undefined {
+    if (Object.keys(mapping).length === 0) return undefined;
+    this.cleanupIfDue();
+    const reviewId = crypto.randomUUID();
+    try {
+      fs.writeFileSync(this.getFilePath(reviewId), JSON.stringify({ reviewId, mapping, createdAt: Date.now() }), { mode: 0o600, flag: 'wx' });
+      return reviewId;
+    } catch (error) {
+      console.error('Failed to write redaction mapping:', error);
+      return undefined;
+    }
+  }
+
+  get(reviewId: string): Record<string, string> | undefined {
+    this.cleanupIfDue();
+    try {
+      const filePath = this.getFilePath(reviewId);
+      // Expired mappings stay unreadable even between cleanups
+      if (!fs.existsSync(filePath) || Date.now() - fs.statSync(filePath).mtimeMs > RETENTION_MS) {
+        return undefined;
+      }
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')).mapping;
+    } catch (error) {
+      console.error('Failed to read redaction mapping:', error);
+      return undefined;
+    }
+  }
+
+  // Long-running servers construct the store once, so expired mappings are also swept while it is in use
+  private cleanupIfDue() {
+    if (Date.now() - this.lastCleanupAt >= CLEANUP_INTERVAL_MS) {
+      this.cleanupOld();
+    }
+  }
+
+  cleanupOld() {
+    this.lastCleanupAt = Date.now();
+    try {
+      const now = Date.now();
+      for (const file of fs.readdirSync(this.storeDir)) {
+        if (!file.endsWith('.json')) continue;
+        const filePath = path.join(this.storeDir, file);
+        if (now - fs.statSync(filePath).mtimeMs > RETENTION_MS) {
+          fs.unlinkSync(filePath);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to cleanup old redaction mappings:', error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const redactionStore = new RedactionStore();
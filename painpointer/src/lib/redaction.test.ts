@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { redactDocuments, Redactor } from './redaction';
+import { SourceDocument } from './sources';
+
+describe('Redactor', () => {
+  it('replaces each detected value with a typed placeholder', () => {
+    const redactor = new Redactor();
+    const text = 'Mail jane.doe@example.com or call (555) 123-4567 from 192.168.0.12 about order #AB12345';
+    expect(redactor.redact(text)).toBe('Mail [EMAIL_1] or call [PHONE_1] from [IP_1] about order #[ORDER_1]');
+    expect(redactor.getSummary()).toEqual({ enabled: true, counts: { EMAIL: 1, PHONE: 1, IP: 1, ORDER: 1 } });
+  });
+
+  it('gives variants of the same value the same placeholder', () => {
+    const redactor = new Redactor();
+    expect(redactor.redact('Jane@Example.com, then jane@example.com, then bob@example.com'))
+      .toBe('[EMAIL_1], then [EMAIL_1], then [EMAIL_2]');
+    expect(redactor.redact('555-123-4567 is (555) 123-4567')).toBe('[PHONE_1] is [PHONE_1]');
+  });
+
+  it('only redacts card numbers that pass the Luhn check', () => {
+    const redactor = new Redactor();
+    expect(redactor.redact('Charged 4111 1111 1111 1111 twice')).toBe('Charged [CARD_1] twice');
+    expect(redactor.redact('Serial 1234 5678 9012 3456')).toBe('Serial 1234 5678 9012 3456');
+  });
+
+  it('leaves order words without a numeric identifier alone', () => {
+    const redactor = new Redactor();
+    expect(redactor.redact('My order never arrived and the ticket was closed')).toBe('My order never arrived and the ticket was closed');
+  });
+
+  it('shares placeholders between authors and u/ mentions', () => {
+    const redactor = new Redactor();
+    expect(redactor.redactAuthor('John_Doe')).toBe('[USER_1]');
+    expect(redactor.redact('Thanks u/john_doe and /u/someone_else')).toBe('Thanks [USER_1] and [USER_2]');
+    expect(redactor.redactAuthor('[deleted]')).toBe('[deleted]');
+  });
+
+  it('redacts /user/ mentions and profile links', () => {
+    const redactor = new Redactor();
+    expect(redactor.redact('See reddit.com/u/john_doe, https://www.reddit.com/user/John_Doe and /user/jane-r'))
+      .toBe('See [USER_1], [USER_1] and [USER_2]');
+    expect(redactor.getMapping()['[USER_2]']).toBe('/user/jane-r');
+  });
+
+  it('leaves paths that merely end in u/ alone', () => {
+    const redactor = new Redactor();
+    expect(redactor.redact('Open menu/settings or example.com/u/whatever')).toBe('Open menu/settings or example.com/u/whatever');
+  });
+
+  it('keeps the originals for review', () => {
+    const redactor = new Redactor();
+    redactor.redact('Contact Jane@Example.com');
+    expect(redactor.getMapping()).toEqual({ '[EMAIL_1]': 'Jane@Example.com' });
+  });
+
+  it('only applies the selected detectors', () => {
+    const redactor = new Redactor(['email']);
+    expect(redactor.redact('jane@example.com 555-123-4567')).toBe('[EMAIL_1] 555-123-4567');
+  });
+
+  it('rejects unknown detectors', () => {
+    expect(() => new Redactor(['email', 'ssn'])).toThrow('Unknown redaction detector "ssn"');
+  });
+});
+
+describe('redactDocuments', () => {
+  it('redacts titles, bodies, authors and nested replies', () => {
+    const doc: SourceDocument = {
+      id: 'p1',
+      source: 'reddit',
+      title: 'Refund for jane@example.com',
+      body: 'Still waiting',
+      score: 1,
+      commentCount: 1,
+      url: 'https://example.com',
+      community: 'support',
+      timestamp: 0,
+      author: 'jane',
+      replies: [{
+        id: 'c1', body: 'Same, u/jane', score: 1, timestamp: 0, author: 'bob',
+        replies: [{ id: 'c2', body: 'ok', score: 1, timestamp: 0, author: 'jane' }],
+      }],
+    };
+
+    const [redacted] = redactDocuments([doc], new Redactor());
+    expect(redacted.title).toBe('Refund for [EMAIL_1]');
+    expect(redacted.author).toBe('[USER_1]');
+    expect(redacted.replies?.[0]).toMatchObject({ body: 'Same, [USER_1]', author: '[USER_2]' });
+    expect(redacted.replies?.[0].replies?.[0].author).toBe('[USER_1]');
+  });
+});
@@ -0,0 +1,151 @@
+import { config } from './config';
+import { SourceDocument, SourceReply } from './sources';
+
+// PII redaction with typed, consistent placeholders ([EMAIL_1], [USER_2], ...) applied before any LLM call
+
+interface Detector {
+  type: string; // Placeholder prefix
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+  key?: (match: string) => string; // Identity of the value, so variants of one value share a placeholder
+}
+
+// Luhn checksum, so long digit runs that aren't card numbers are left alone
+function isLuhnValid(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const DETECTORS: Record<string, Detector> = {
+  email: {
+    type: 'EMAIL',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    key: match => match.toLowerCase(),
+  },
+  'credit-card': {
+    type: 'CARD',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: isLuhnValid,
+    key: match => match.replace(/\D/g, ''),
+  },
+  phone: {
+    type: 'PHONE',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-]?)\d{3}[\s.-]?\d{4}(?!\w)/g,
+    key: match => match.replace(/\D/g, ''),
+  },
+  'ip-address': {
+    type: 'IP',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  },
+  // Only the identifier after "order #", "ticket number", ... and only when it contains a digit
+  'order-number': {
+    type: 'ORDER',
+    pattern: /(?<=\b(?:order|confirmation|tracking|ticket|case|invoice|reference|claim|rma)\s*(?:number|no\.?|num|id|#)?\s*[:#]?\s*)(?=[A-Z-]*\d)[A-Z0-9][A-Z0-9-]{4,}\b/gi,
+    key: match => match.toUpperCase(),
+  },
+  // u/name, /u/name, /user/name and reddit.com profile links
+  username: {
+    type: 'USER',
+    pattern: /(?:(?:https?:\/\/)?(?:[a-z]+\.)?reddit\.com\/|(?<![\w/])\/?)u(?:ser)?\/[A-Za-z0-9_-]{3,20}/gi,
+    key: match => match.substring(match.lastIndexOf('/') + 1).toLowerCase(),
+  },
+};
+
+export const AVAILABLE_DETECTORS = Object.keys(DETECTORS);
+
+export interface RedactionSummary {
+  enabled: boolean;
+  counts: Record<string, number>; // Placeholder type -> distinct values redacted
+  reviewId?: string; // Server-generated key for the originals at /api/redactions, when anything was redacted
+}
+
+/**
+ * Redacts text for one analysis. The same value always gets the same placeholder, so the LLM can still
+ * tell that two complaints mention the same order or user.
+ */
+export class Redactor {
+  private placeholders = new Map<string, string>();
+  private originals: Record<string, string> = {};
+  private counters: Record<string, number> = {};
+  private detectors: Detector[];
+
+  constructor(detectorIds: string[] = config.redaction.detectors) {
+    this.detectors = [
+      ...detectorIds.map(id => {
+        const detector = DETECTORS[id];
+        if (!detector) {
+          throw new Error(`Unknown redaction detector "${id}". Available detectors: ${AVAILABLE_DETECTORS.join(', ')}`);
+        }
+        return detector;
+      }),
+      ...config.redaction.customDetectors.map(({ type, pattern }) => ({ type, pattern: new RegExp(pattern, 'g') })),
+    ];
+  }
+
+  private placeholderFor(type: string, key: string, original: string): string {
+    const id = `${type}:${key}`;
+    let placeholder = this.placeholders.get(id);
+    if (!placeholder) {
+      this.counters[type] = (this.counters[type] || 0) + 1;
+      placeholder = `[${type}_${this.counters[type]}]`;
+      this.placeholders.set(id, placeholder);
+      this.originals[placeholder] = original;
+    }
+    return placeholder;
+  }
+
+  redact(text: string): string {
+    return this.detectors.reduce((redacted, detector) => redacted.replace(detector.pattern, match => {
+      if (detector.validate && !detector.validate(match)) return match;
+      return this.placeholderFor(detector.type, detector.key ? detector.key(match) : match, match);
+    }), text);
+  }
+
+  /**
+   * Author names share placeholders with u/ mentions of the same user
+   */
+  redactAuthor(author: string): string {
+    if (author === '[deleted]' || author === '[removed]') return author;
+    return this.placeholderFor('USER', author.toLowerCase(), author);
+  }
+
+  /**
+   * Placeholder -> original value; keep server-side only
+   */
+  getMapping(): Record<string, string> {
+    return { ...this.originals };
+  }
+
+  getSummary(): RedactionSummary {
+    return { enabled: true, counts: { ...this.counters } };
+  }
+}
+
+/**
+ * Redact the text and authors of documents and their reply trees
+ */
+export function redactDocuments(documents: SourceDocument[], redactor: Redactor): SourceDocument[] {
+  const redactReplies = (replies: SourceReply[]): SourceReply[] => replies.map(reply => ({
+    ...reply,
+    body: redactor.redact(reply.body),
+    author: redactor.redactAuthor(reply.author),
+    replies: reply.replies && redactReplies(reply.replies),
+  }));
+
+  return documents.map(doc => ({
+    ...doc,
+    title: redactor.redact(doc.title),
+    body: redactor.redact(doc.body),
+    author: redactor.redactAuthor(doc.author),
+    replies: doc.replies && redactReplies(doc.replies),
+  }));
+}
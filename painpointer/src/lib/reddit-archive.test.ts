@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { searchRedditArchive } from './reddit-archive';
+
+const toJsonl = (records: object[]) => records.map(record => JSON.stringify(record)).join('\n');
+
+describe('searchRedditArchive', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'painpointer-archive-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const search = async (comments: object[]) => {
+    const submissionsPath = path.join(dir, 'submissions.jsonl');
+    const commentsPath = path.join(dir, 'comments.jsonl');
+    fs.writeFileSync(submissionsPath, toJsonl([{ id: 'p1', title: 'Battery drain after update', subreddit: 'android', created_utc: 1700000000 }]));
+    fs.writeFileSync(commentsPath, toJsonl(comments));
+    const [post] = await searchRedditArchive('battery', { submissionsPath, commentsPath });
+    return post.comments || [];
+  };
+
+  const comment = (id: string, parent: string, score: number, body = `Comment ${id}`) =>
+    ({ id, body, score, created_utc: 1700000100, author: `user_${id}`, link_id: 't3_p1', parent_id: parent });
+
+  it('keeps the highest-scored comments, wherever they appear in the dump', async () => {
+    const filler = Array.from({ length: 250 }, (_, i) => comment(`f${i}`, 't3_p1', 1));
+    const comments = await search([...filler, comment('top', 't3_p1', 500)]);
+    expect(comments[0].id).toBe('top');
+  });
+
+  it('moves replies under a skipped comment up to its nearest kept ancestor', async () => {
+    const comments = await search([
+      comment('a', 't3_p1', 10),
+      comment('d', 't1_a', 5, '[deleted]'),
+      comment('r', 't1_d', 8),
+      comment('r2', 't1_r', 3),
+      comment('orphan', 't1_missing', 2),
+    ]);
+    expect(comments.map(c => c.id)).toEqual(['a', 'orphan']);
+    expect(comments[0].replies?.map(c => c.id)).toEqual(['r']);
+    expect(comments[0].replies?.[0].replies?.map(c => c.id)).toEqual(['r2']);
+  });
+});
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { spawn } from 'child_process';
+import { config } from './config';
+import { RedditPost, RedditComment, isSkippableComment } from './reddit-client';
+import { TimeWindow, isWithinWindow } from './time-window';
+
+// Pushshift-style dump records (only the fields we read)
+interface ArchiveSubmission {
+  id: string;
+  title?: string;
+  selftext?: string;
+  score?: number;
+  num_comments?: number;
+  upvote_ratio?: number;
+  url?: string;
+  permalink?: string;
+  subreddit?: string;
+  created_utc: number | string;
+  author?: string;
+}
+
+interface ArchiveComment {
+  id: string;
+  body?: string;
+  score?: number;
+  created_utc: number | string;
+  author?: string;
+  link_id: string; // t3_<submission id>
+  parent_id: string; // t3_<submission id> for top-level comments, t1_<comment id> for replies
+}
+
+export interface ArchiveSearchOptions {
+  submissionsPath: string;
+  commentsPath?: string;
+  subreddits?: string[]; // Case-insensitive allow-list
+  timeWindow?: TimeWindow;
+}
+
+/**
+ * Stream a .jsonl or .zst dump line by line without loading it into memory.
+ * Zstandard dumps are piped through the `zstd` CLI (Pushshift dumps need its --long=31 window).
+ */
+async function* readLines(filePath: string): AsyncGenerator<string> {
+  if (!filePath.endsWith('.zst')) {
+    const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+    yield* lines;
+    return;
+  }
+
+  const zstd = spawn('zstd', ['-dc', '--long=31', filePath], { stdio: ['ignore', 'pipe', 'pipe'] });
+  let stderr = '';
+  zstd.stderr.on('data', (chunk) => { stderr += chunk; });
+  const exited = new Promise<string | undefined>(resolve => {
+    zstd.on('error', (error) => resolve(`is the zstd CLI installed? ${error.message}`));
+    zstd.on('close', (code) => resolve(code === 0 ? undefined : stderr.trim() || `exit code ${code}`));
+  });
+
+  let finished = false;
+  try {
+    yield* readline.createInterface({ input: zstd.stdout, crlfDelay: Infinity });
+    finished = true;
+  } finally {
+    // Stop decompressing if the consumer broke out early
+    if (!finished) zstd.kill();
+  }
+
+  const failure = await exited;
+  if (failure) {
+    throw new Error(`Failed to decompress ${filePath}: ${failure}`);
+  }
+}
+
+async function* readRecords<T>(filePath: string): AsyncGenerator<T> {
+  for await (const line of readLines(filePath)) {
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line) as T;
+    } catch {
+      // Dumps occasionally contain truncated lines; skip them
+    }
+  }
+}
+
+function matchesTerm(text: string, termWords: string[]): boolean {
+  const lowerText = text.toLowerCase();
+  return termWords.every(word => lowerText.includes(word));
+}
+
+function toSubmission(record: ArchiveSubmission): RedditPost {
+  return {
+    id: record.id,
+    title: record.title || '',
+    selftext: record.selftext || '',
+    score: record.score ?? 0,
+    num_comments: record.num_comments ?? 0,
+    upvote_ratio: record.upvote_ratio,
+    url: record.permalink ? `https://www.reddit.com${record.permalink}` : record.url || '',
+    subreddit: record.subreddit || '',
+    created_utc: Number(record.created_utc),
+    author: record.author || '[deleted]',
+    comments: [],
+  };
+}
+
+/**
+ * Search a local Reddit dump: matching submissions first, then the comment trees under them
+ */
+export async function searchRedditArchive(searchTerm: string, options: ArchiveSearchOptions): Promise<RedditPost[]> {
+  const termWords = searchTerm.toLowerCase().split(/\s+/).filter(Boolean);
+  const subreddits = options.subreddits?.map(name => name.toLowerCase());
+  const maxPosts = config.app.maxPosts;
+  const engagement = (post: RedditPost) => post.score + post.num_comments;
+
+  console.log(`📦 Scanning archive ${options.submissionsPath} for "${searchTerm}"`);
+
+  // Keep only the most engaged matches so memory stays bounded on multi-GB dumps
+  let posts: RedditPost[] = [];
+  let scanned = 0;
+  for await (const record of readRecords<ArchiveSubmission>(options.submissionsPath)) {
+    scanned++;
+    if (!record.id || !record.title) continue;
+    if (subreddits && !subreddits.includes((record.subreddit || '').toLowerCase())) continue;
+    if (!isWithinWindow(Number(record.created_utc), options.timeWindow)) continue;
+    if (!matchesTerm(`${record.title} ${record.selftext || ''}`, termWords)) continue;
+
+    posts.push(toSubmission(record));
+    if (posts.length >= maxPosts * 2) {
+      posts = posts.sort((a, b) => engagement(b) - engagement(a)).slice(0, maxPosts);
+    }
+  }
+  posts = posts.sort((a, b) => engagement(b) - engagement(a)).slice(0, maxPosts);
+  console.log(`✅ Archive scan matched ${posts.length} posts out of ${scanned} records`);
+
+  if (options.commentsPath && posts.length > 0) {
+    await attachArchiveComments(posts.slice(0, config.app.maxCommentPosts), options.commentsPath);
+  }
+
+  return posts;
+}
+
+/**
+ * Stream the comments dump once, collecting comments that belong to the given posts
+ */
+async function attachArchiveComments(posts: RedditPost[], commentsPath: string): Promise<void> {
+  const byPost = new Map(posts.map(post => [`t3_${post.id}`, [] as ArchiveComment[]]));
+  // Keep a few more candidates than the tree takes, so deep replies to high-scored comments still fit.
+  // Lists are trimmed to the highest-scored candidates whenever they grow past twice the limit.
+  const candidateLimit = config.app.maxComments * 5;
+  const byScore = (a: ArchiveComment, b: ArchiveComment) => (b.score ?? 0) - (a.score ?? 0);
+  const parents = new Map<string, string>(); // t1_<id> -> parent_id for every comment on the posts, kept or not
+
+  for await (const record of readRecords<ArchiveComment>(commentsPath)) {
+    const candidates = byPost.get(record.link_id);
+    if (!candidates) continue;
+    parents.set(`t1_${record.id}`, record.parent_id);
+    if (isSkippableComment(record.body, record.author || '[deleted]')) continue;
+    candidates.push(record);
+    if (candidates.length >= candidateLimit * 2) {
+      byPost.set(record.link_id, candidates.sort(byScore).slice(0, candidateLimit));
+    }
+  }
+
+  for (const post of posts) {
+    const candidates = (byPost.get(`t3_${post.id}`) || []).sort(byScore).slice(0, candidateLimit);
+    post.comments = buildCommentTree(candidates, `t3_${post.id}`, parents);
+  }
+}
+
+/**
+ * Nest comments under their parents. Replies whose parent was skipped (deleted, bot) or trimmed move up to
+ * the nearest kept ancestor, or the post, so the conversation underneath is kept as for live Reddit comments.
+ */
+function buildCommentTree(records: ArchiveComment[], rootId: string, parents: Map<string, string>): RedditComment[] {
+  const known = new Set(records.map(record => `t1_${record.id}`));
+  const keptAncestor = (parentId: string): string => {
+    let current: string | undefined = parentId;
+    for (let hops = 0; current && hops <= parents.size; hops++) {
+      if (current === rootId || known.has(current)) return current;
+      current = parents.get(current);
+    }
+    return rootId;
+  };
+
+  const children = new Map<string, ArchiveComment[]>();
+  for (const record of records) {
+    const parentId = keptAncestor(record.parent_id);
+    const siblings = children.get(parentId) || [];
+    siblings.push(record);
+    children.set(parentId, siblings);
+  }
+
+  let remaining = config.app.maxComments;
+  const build = (parentId: string, depth: number): RedditComment[] => {
+    const replies = (children.get(parentId) || []).sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    const tree: RedditComment[] = [];
+    for (const record of replies) {
+      if (remaining <= 0) break;
+      remaining--;
+      tree.push({
+        id: record.id,
+        body: record.body || '',
+        score: record.score ?? 0,
+        created_utc: Number(record.created_utc),
+        author: record.author || '[deleted]',
+        replies: depth + 1 < config.app.maxCommentDepth ? build(`t1_${record.id}`, depth + 1) : [],
+      });
+    }
+    return tree;
+  };
+
+  return build(rootId, 0);
+}
@@ -1,6 +1,13 @@
 import Snoowrap from 'snoowrap';
 import { config } from './config';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { isBotAuthor } from './author-filter';
+import { fixtureStore } from './fixture-store';
+import { RateLimitState, RequestScheduler } from './request-scheduler';
+import { progressTracker } from './progress-tracker';
+import { TimeWindow, RedditTimeFilter, isWithinWindow, redditTimeFilterFor, limitTimeFilters, timeFilterStart } from './time-window';
+import { ExpandedQuery, QueryExpansionOptions, exclusionSuffix, expandQueries } from './query-expansion';
+import { postCache, PostCacheKey } from './post-cache';
+import { createLlmProvider, FallbackLog, generateStructured, isLlmStepEnabled, LlmProvider, schema } from './llm';
 
 export interface RedditPost {
   id: string;
@@ -8,6 +15,7 @@ export interface RedditPost {
   selftext: string;
   score: number;
   num_comments: number;
+  upvote_ratio?: number; // Share of votes that are upvotes (0-1), when the source reports it
   url: string;
   subreddit: string;
   created_utc: number;
@@ -24,38 +32,206 @@ export interface RedditComment {
   replies?: RedditComment[];
 }
 
+export interface SubredditCandidate {
+  name: string;
+  origins: Array<'ai' | 'search' | 'fallback'>; // Where the suggestion came from
+  subscribers: number;
+  nsfw: boolean;
+  relevanceScore: number; // 0-1, higher is better
+}
+
+interface SubredditInfo {
+  exists: boolean;
+  name: string; // Canonical display name
+  subscribers: number;
+  nsfw: boolean;
+  reason?: string; // Why the subreddit can't be searched
+}
+
+/**
+ * Deleted, removed and bot comments carry no customer voice
+ */
+export function isSkippableComment(body: string | undefined, author: string): boolean {
+  const text = body?.trim();
+  if (!text || text === '[deleted]' || text === '[removed]') return true;
+  return isBotAuthor(author);
+}
+
+type RedditSearchParams = Pick<Snoowrap.SearchOptions, 'query' | 'sort' | 'time'> & { subreddit?: string };
+
+export interface RedditClientOptions {
+  analysisId?: string; // Progress entry that throttling updates are reported to
+  timeWindow?: TimeWindow; // Only posts created inside this window are returned
+  queryExpansion?: QueryExpansionOptions; // How the variation search expands the term
+  forceRefresh?: boolean; // Bypass cached search results and refetch everything
+  llmFallbacks?: FallbackLog; // Where failed subreddit and synonym suggestions are recorded
+}
+
+// Latest rate-limit headers seen by any client; every client authenticates as the same Reddit account
+let latestRateLimit: RateLimitState | undefined;
+
+// One scheduler per process, so concurrent analyses share the account's rate limit and concurrency cap
+export const redditScheduler = new RequestScheduler({
+  ...config.scheduler,
+  readRateLimit: () => latestRateLimit,
+});
+
 export class RedditClient {
-  private reddit: Snoowrap;
-  private genAI: GoogleGenerativeAI;
-  private model: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+  private snoowrap?: Snoowrap;
+  private analysisId?: string;
+  private timeWindow?: TimeWindow;
+  private subredditSelection: SubredditCandidate[] = [];
+  private queryExpansion?: QueryExpansionOptions;
+  private forceRefresh: boolean;
+  private expandedQueries: ExpandedQuery[] = [];
+  private subredditLlm: LlmProvider;
+  private synonymLlm: LlmProvider;
+  private llmFallbacks?: FallbackLog;
+
+  constructor(options: RedditClientOptions = {}) {
+    this.analysisId = options.analysisId;
+    this.timeWindow = options.timeWindow;
+    this.queryExpansion = options.queryExpansion;
+    this.forceRefresh = !!options.forceRefresh;
+    this.llmFallbacks = options.llmFallbacks;
+
+    // Initialize Reddit client; replayed runs never touch the live API, so they need no credentials
+    if (fixtureStore.mode !== 'replay') {
+      try {
+        this.snoowrap = new Snoowrap({
+          userAgent: config.reddit.userAgent,
+          clientId: config.reddit.clientId,
+          clientSecret: config.reddit.clientSecret,
+          username: config.reddit.username,
+          password: config.reddit.password,
+        });
+        // Retries and rate limiting are handled by the scheduler
+        this.snoowrap.config({ retryErrorCodes: [], continueAfterRatelimitError: false });
+      } catch (error) {
+        console.warn('Username/password auth failed, this might be due to app type. Error:', error);
+        throw new Error(
+          'Reddit authentication failed. Please ensure your Reddit app is configured as a "script" app type. ' +
+          'Go to https://www.reddit.com/prefs/apps and change your app type to "script", or create a new script app.'
+        );
+      }
+    }
 
-  constructor() {
-    // Initialize Reddit client
-    try {
-      this.reddit = new Snoowrap({
-        userAgent: config.reddit.userAgent,
-        clientId: config.reddit.clientId,
-        clientSecret: config.reddit.clientSecret,
-        username: config.reddit.username,
-        password: config.reddit.password,
-      });
-    } catch (error) {
-      console.warn('Username/password auth failed, this might be due to app type. Error:', error);
-      throw new Error(
-        'Reddit authentication failed. Please ensure your Reddit app is configured as a "script" app type. ' +
-        'Go to https://www.reddit.com/prefs/apps and change your app type to "script", or create a new script app.'
-      );
+    // LLMs for subreddit suggestions and query synonyms
+    this.subredditLlm = createLlmProvider('subreddits');
+    this.synonymLlm = createLlmProvider('synonyms');
+  }
+
+  /**
+   * Run a Reddit request through the shared scheduler, passing on the rate-limit headers it came back with
+   */
+  private schedule<T>(label: string, task: () => Promise<T>): Promise<T> {
+    return redditScheduler.schedule(label, async () => {
+      try {
+        return await task();
+      } finally {
+        if (this.snoowrap) {
+          latestRateLimit = { remaining: this.snoowrap.ratelimitRemaining, resetAt: this.snoowrap.ratelimitExpiration };
+        }
+      }
+    });
+  }
+
+  private get reddit(): Snoowrap {
+    if (!this.snoowrap) {
+      throw new Error('Reddit API is unavailable in fixture replay mode');
     }
+    return this.snoowrap;
+  }
 
-    // Initialize Gemini AI for subreddit suggestions
-    this.genAI = new GoogleGenerativeAI(config.gemini.apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+  /**
+   * Time filter for a strategy: its own default, or whatever covers the analysis window
+   */
+  private timeFilter(strategyDefault: RedditTimeFilter): RedditTimeFilter {
+    return this.timeWindow ? redditTimeFilterFor(this.timeWindow) : strategyDefault;
+  }
+
+  /**
+   * The search term with the analysis' query exclusions, for strategies that search the bare term
+   */
+  private termQuery(searchTerm: string): string {
+    return `${searchTerm}${exclusionSuffix(this.queryExpansion)}`;
+  }
+
+  /**
+   * Run a Reddit search (optionally restricted to one subreddit) through the post cache,
+   * post-filtered to the analysis window
+   */
+  private async runSearch(strategy: string, params: RedditSearchParams): Promise<RedditPost[]> {
+    // Cache hits would bypass fixture recording and replay, so the cache only applies to live runs
+    const useCache = fixtureStore.mode === 'off';
+    const cacheKey: PostCacheKey = { strategy, ...params };
+    const cached = useCache && !this.forceRefresh ? postCache.get(cacheKey) : undefined;
+
+    let posts: RedditPost[];
+    if (cached && postCache.isFresh(cached)) {
+      posts = cached.posts;
+    } else if (cached && postCache.canRefreshIncrementally(cached) && (params.sort === 'new' || params.sort === 'top')) {
+      // Stale entry: only fetch what was posted since the newest cached post. Only 'new' and 'top' orders can be
+      // rebuilt from a merge; relevance-style orders are refetched below.
+      const newest = await this.fetchSearch({ ...params, sort: 'new' });
+      const newPosts = newest.filter(post => post.created_utc > cached.latestCreatedUtc);
+      // Cached posts the response also returned get their current score and comment count
+      const current = new Map(newest.map(post => [post.id, post]));
+      const oldest = timeFilterStart(params.time);
+      const kept = cached.posts
+        .map(post => current.get(post.id) || post)
+        .filter(post => post.created_utc >= oldest); // Posts that aged out of the search's time filter
+      const merged = params.sort === 'top'
+        ? [...kept, ...newPosts].sort((a, b) => b.score - a.score)
+        : [...newPosts, ...kept];
+      posts = merged.slice(0, cached.resultSize);
+      console.log(`🗄️ Refreshed cached ${strategy} search "${params.query}" with ${newPosts.length} new posts`);
+      postCache.refresh(cached, posts);
+    } else {
+      posts = await this.fetchSearch(params);
+      if (useCache) postCache.set(cacheKey, posts);
+    }
+
+    return posts.filter(post => isWithinWindow(post.created_utc, this.timeWindow));
+  }
+
+  /**
+   * Live Reddit search, recorded for replay
+   */
+  private async fetchSearch(params: RedditSearchParams): Promise<RedditPost[]> {
+    return fixtureStore.run('reddit-search', params, async () => {
+      const results = await this.schedule(
+        `search "${params.query}"${params.subreddit ? ` in r/${params.subreddit}` : ''}`,
+        async () => this.reddit.search({ ...params, restrictSr: !!params.subreddit })
+      );
+      return Array.from(results).map(post => ({
+        id: post.id,
+        title: post.title,
+        selftext: post.selftext || '',
+        score: post.score,
+        num_comments: post.num_comments,
+        upvote_ratio: post.upvote_ratio,
+        url: post.url,
+        subreddit: post.subreddit.display_name,
+        created_utc: post.created_utc,
+        author: post.author?.name || '[deleted]',
+        comments: [],
+      }));
+    });
+  }
+
+  /**
+   * Skip link-only posts with throwaway titles
+   */
+  private isSubstantivePost(post: RedditPost): boolean {
+    return !!post.title && (!!post.selftext || post.title.length > 15);
   }
 
   /**
    * Use AI to suggest relevant subreddits for a search term
    */
   private async getAISuggestedSubreddits(searchTerm: string): Promise<string[]> {
+    if (!isLlmStepEnabled('subreddits')) return [];
     try {
       console.log(`🤖 Using AI to suggest subreddits for: "${searchTerm}"`);
       
@@ -81,42 +257,41 @@ Example format:
 
 JSON array:`;
 
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text().trim();
-      
-      console.log(`🤖 AI response:`, text);
-      
-      // Parse the AI response - handle markdown code blocks
-      let jsonText = text;
-      
-      // Remove markdown code block markers if present
-      if (text.includes('```json')) {
-        const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-        if (jsonMatch) {
-          jsonText = jsonMatch[1].trim();
-        }
-      } else if (text.includes('```')) {
-        // Handle generic code blocks
-        const codeMatch = text.match(/```\s*([\s\S]*?)\s*```/);
-        if (codeMatch) {
-          jsonText = codeMatch[1].trim();
-        }
-      }
-      
-      // Parse the cleaned JSON
-      const suggestions = JSON.parse(jsonText);
-      
-      if (Array.isArray(suggestions) && suggestions.length > 0) {
-        console.log(`✅ AI suggested subreddits:`, suggestions);
-        return suggestions.slice(0, 8); // Limit to 8 subreddits
-      }
-      
-      throw new Error('Invalid AI response format');
-      
+      const suggestions = await generateStructured(this.subredditLlm, prompt, schema.refine(
+        schema.array(schema.string()),
+        names => names.length === 0 ? 'must list at least one subreddit' : undefined
+      ));
+
+      console.log(`✅ AI suggested subreddits:`, suggestions);
+      return suggestions.slice(0, 8); // Limit to 8 subreddits
     } catch (error) {
       console.error('❌ AI subreddit suggestion failed:', error);
-      return this.getFallbackSubreddits(searchTerm);
+      this.llmFallbacks?.record('subreddits', 'built-in subreddit list', error);
+      return []; // Fallback subreddits are merged in as candidates by selectSubreddits
+    }
+  }
+
+  /**
+   * Use AI to suggest other names people use for the term (abbreviations, nicknames, model codes)
+   */
+  private async getAISynonyms(searchTerm: string): Promise<string[]> {
+    if (!isLlmStepEnabled('synonyms')) return [];
+    try {
+      const prompt = `
+List up to 5 other names Reddit users commonly use for "${searchTerm}": abbreviations, nicknames, model codes or common misspellings.
+Only include names that unambiguously refer to "${searchTerm}".
+
+CRITICAL: Return ONLY a valid JSON array of strings with no markdown formatting, no code blocks, no explanations.
+
+JSON array:`;
+
+      const synonyms = await generateStructured(this.synonymLlm, prompt, schema.array(schema.string()));
+      console.log(`✅ AI suggested synonyms:`, synonyms);
+      return synonyms.slice(0, 5);
+    } catch (error) {
+      console.error('❌ AI synonym suggestion failed:', error);
+      this.llmFallbacks?.record('synonyms', 'configured aliases only', error);
+      return [];
     }
   }
 
@@ -150,14 +325,18 @@ JSON array:`;
     // Generic tech/product fallbacks
     return ['technology', 'gadgets', 'reviews', 'complaints', 'mildlyinfuriating', 'assholedesign'];
   }
+
   async findRelevantSubreddits(searchTerm: string): Promise<string[]> {
     try {
-      const subreddits = await this.reddit.searchSubreddits({
-        query: searchTerm,
-        limit: config.app.maxSubreddits,
+      return await fixtureStore.run('reddit-subreddits', { query: searchTerm, limit: config.app.maxSubreddits }, async () => {
+        const subreddits = await this.schedule(`subreddit search "${searchTerm}"`, async () =>
+          this.reddit.searchSubreddits({
+            query: searchTerm,
+            limit: config.app.maxSubreddits,
+          })
+        );
+        return subreddits.map(sub => sub.display_name);
       });
-
-      return subreddits.map(sub => sub.display_name);
     } catch (error) {
       console.error('Error finding subreddits:', error);
       // Fallback to common complaint subreddits
@@ -165,6 +344,128 @@ JSON array:`;
     }
   }
 
+  /**
+   * Queries used by the last variation search, with the posts each contributed
+   */
+  getExpandedQueries(): ExpandedQuery[] {
+    return this.expandedQueries;
+  }
+
+  /**
+   * Subreddits chosen (and scored) by the last AI subreddit search
+   */
+  getSubredditSelection(): SubredditCandidate[] {
+    return this.subredditSelection;
+  }
+
+  /**
+   * Merge AI, search and fallback suggestions, validate them against Reddit's metadata
+   * and keep the highest scoring ones; invalid suggestions fall out so the next best take their place
+   */
+  private async selectSubreddits(searchTerm: string): Promise<SubredditCandidate[]> {
+    const [aiSuggestions, searchResults] = await Promise.all([
+      this.getAISuggestedSubreddits(searchTerm),
+      this.findRelevantSubreddits(searchTerm),
+    ]);
+
+    const candidates = new Map<string, SubredditCandidate['origins']>();
+    const addCandidates = (names: string[], origin: 'ai' | 'search' | 'fallback') => {
+      for (const raw of names) {
+        const name = String(raw).trim().replace(/^\/?r\//i, '');
+        // Reddit names are 2-21 word characters; anything else is an invented name
+        if (!/^[A-Za-z0-9_]{2,21}$/.test(name)) continue;
+        const origins = candidates.get(name.toLowerCase()) || [];
+        if (!origins.includes(origin)) origins.push(origin);
+        candidates.set(name.toLowerCase(), origins);
+      }
+    };
+    addCandidates(aiSuggestions, 'ai');
+    addCandidates(searchResults, 'search');
+    addCandidates(this.getFallbackSubreddits(searchTerm), 'fallback');
+
+    const validated = await Promise.all(
+      Array.from(candidates.entries()).map(async ([name, origins]) => ({
+        origins,
+        info: await this.getSubredditInfo(name),
+      }))
+    );
+
+    const selection = validated
+      .filter(({ info }) => {
+        if (!info.exists) {
+          console.warn(`⚠️ Skipping r/${info.name}: ${info.reason}`);
+          return false;
+        }
+        if (info.nsfw && !config.app.allowNsfwSubreddits) {
+          console.warn(`⚠️ Skipping NSFW r/${info.name}`);
+          return false;
+        }
+        return true;
+      })
+      .map(({ info, origins }) => ({
+        name: info.name,
+        origins,
+        subscribers: info.subscribers,
+        nsfw: info.nsfw,
+        relevanceScore: this.scoreSubreddit(searchTerm, info, origins),
+      }))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, config.app.maxSubreddits);
+
+    console.log(`✅ Selected subreddits:`, selection.map(sub => `r/${sub.name} (${sub.relevanceScore})`).join(', '));
+    return selection;
+  }
+
+  /**
+   * Fetch subreddit metadata; banned, private and non-existent subreddits come back with exists: false
+   */
+  private async getSubredditInfo(name: string): Promise<SubredditInfo> {
+    try {
+      return await fixtureStore.run('reddit-subreddit-about', { name }, async () => {
+        // Subreddits are self-referential thenables, so awaiting them directly trips up TS inference
+        const about = await this.schedule(`about r/${name}`, async () =>
+          (this.reddit.getSubreddit(name) as any).fetch() // eslint-disable-line @typescript-eslint/no-explicit-any
+        ) as Snoowrap.Subreddit;
+
+        const isPrivate = about.subreddit_type === 'private' || about.subreddit_type === 'employees_only';
+        return {
+          exists: !isPrivate && !about.quarantine,
+          name: about.display_name || name,
+          subscribers: about.subscribers || 0,
+          nsfw: !!about.over18,
+          reason: isPrivate ? 'private' : about.quarantine ? 'quarantined' : undefined,
+        };
+      });
+    } catch (error) {
+      const status = (error as { statusCode?: number }).statusCode;
+      const reason = status === 404 ? 'does not exist or is banned'
+        : status === 403 ? 'private or banned'
+        : error instanceof Error ? error.message : 'lookup failed';
+      return { exists: false, name, subscribers: 0, nsfw: false, reason };
+    }
+  }
+
+  /**
+   * Relevance: agreement between suggestion sources, name match with the term, and community size
+   */
+  private scoreSubreddit(searchTerm: string, info: SubredditInfo, origins: SubredditCandidate['origins']): number {
+    const originScore = (origins.includes('ai') ? 0.35 : 0)
+      + (origins.includes('search') ? 0.25 : 0)
+      + (origins.includes('fallback') ? 0.1 : 0);
+
+    const name = info.name.toLowerCase();
+    const termWords = searchTerm.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 3);
+    const compactTerm = searchTerm.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const nameScore = name === compactTerm || name.includes(compactTerm) ? 0.25
+      : termWords.some(word => name.includes(word)) ? 0.15
+      : 0;
+
+    // 10M subscribers saturates the size component
+    const sizeScore = Math.min(1, Math.log10(info.subscribers + 1) / 7) * 0.3;
+
+    return Math.round(Math.min(1, originScore + nameScore + sizeScore) * 100) / 100;
+  }
+
   /**
    * Search for posts in multiple subreddits
    */
@@ -174,26 +475,14 @@ JSON array:`;
 
     for (const subreddit of subreddits) {
       try {
-        const posts = await this.reddit.getSubreddit(subreddit).search({
-          query: searchTerm,
+        const posts = await this.runSearch('subreddit', {
+          query: this.termQuery(searchTerm),
+          subreddit,
           sort: 'relevance',
-          time: 'month', // Last month for recent complaints
+          time: this.timeFilter('month'), // Last month for recent complaints
         });
 
-        const limitedPosts = posts.slice(0, postsPerSubreddit);
-        const formattedPosts = limitedPosts.map((post: any) => ({ // eslint-disable-line @typescript-eslint/no-explicit-any
-          id: post.id,
-          title: post.title,
-          selftext: post.selftext,
-          score: post.score,
-          num_comments: post.num_comments,
-          url: post.url,
-          subreddit: post.subreddit.display_name,
-          created_utc: post.created_utc,
-          author: post.author?.name || '[deleted]',
-        }));
-
-        allPosts.push(...formattedPosts);
+        allPosts.push(...posts.slice(0, postsPerSubreddit));
       } catch (error) {
         console.error(`Error searching in r/${subreddit}:`, error);
         continue; // Skip this subreddit and continue with others
@@ -204,26 +493,105 @@ JSON array:`;
   }
 
   /**
-   * Get comments for a specific post
+   * Get the comment tree for a specific post
    */
   async getPostComments(postId: string): Promise<RedditComment[]> {
+    const limits = {
+      maxComments: config.app.maxComments,
+      maxDepth: config.app.maxCommentDepth,
+      maxExpansions: config.app.maxMoreCommentsExpansions,
+    };
+
     try {
-      // For now, return empty array to avoid complex async typing issues
-      // We'll focus on post content which contains most complaints
-      return [];
+      return await fixtureStore.run('reddit-comments', { postId, ...limits }, async () => {
+        // Submissions are self-referential thenables, so awaiting them directly trips up TS inference
+        const submission = await this.schedule(`comments for ${postId}`, async () =>
+          (this.reddit.getSubmission(postId) as any).fetch() // eslint-disable-line @typescript-eslint/no-explicit-any
+        ) as Snoowrap.Submission;
+
+        const budget = {
+          remaining: limits.maxComments,
+          expansions: limits.maxExpansions,
+        };
+
+        return this.collectComments(submission.comments, 0, budget);
+      });
     } catch (error) {
       console.error(`Error getting comments for post ${postId}:`, error);
       return [];
     }
   }
 
+  /**
+   * Walk a comment listing depth-first, expanding "more comments" stubs while budget allows
+   */
+  private async collectComments(
+    listing: Snoowrap.Listing<Snoowrap.Comment>,
+    depth: number,
+    budget: { remaining: number; expansions: number }
+  ): Promise<RedditComment[]> {
+    let comments = listing;
+
+    if (!comments.isFinished && budget.expansions > 0 && budget.remaining > comments.length) {
+      budget.expansions--;
+      try {
+        const amount = budget.remaining - comments.length;
+        comments = await this.schedule(`more comments`, async () => comments.fetchMore({ amount, append: true }));
+      } catch (error) {
+        console.warn(`⚠️ Failed to expand more comments:`, error);
+      }
+    }
+
+    const collected: RedditComment[] = [];
+
+    for (const comment of comments) {
+      if (budget.remaining <= 0) break;
+
+      const skip = isSkippableComment(comment.body, comment.author?.name || '[deleted]');
+      if (!skip) budget.remaining--;
+
+      const replies = depth + 1 < config.app.maxCommentDepth && comment.replies
+        ? await this.collectComments(comment.replies, depth + 1, budget)
+        : [];
+
+      if (skip) {
+        // Keep the conversation underneath a deleted or bot comment
+        collected.push(...replies);
+        continue;
+      }
+
+      collected.push({
+        id: comment.id,
+        body: comment.body,
+        score: comment.score,
+        created_utc: comment.created_utc,
+        author: comment.author?.name || '[deleted]',
+        replies,
+      });
+    }
+
+    return collected;
+  }
+
   /**
    * Get posts with their comments using comprehensive parallel search
    */
   async getPostsWithComments(searchTerm: string): Promise<RedditPost[]> {
+    // Throttling caused by any analysis on the shared scheduler delays this one too, so report all of it
+    const unsubscribe = this.analysisId
+      ? redditScheduler.onThrottle(details => progressTracker.updateDetails(this.analysisId!, details))
+      : undefined;
+    try {
+      return await this.searchAllStrategies(searchTerm);
+    } finally {
+      unsubscribe?.();
+    }
+  }
+
+  private async searchAllStrategies(searchTerm: string): Promise<RedditPost[]> {
     console.log(`🔍 Starting comprehensive parallel search for: "${searchTerm}"`);
     
-    const allPosts: RedditPost[] = [];
+    const postsById = new Map<string, RedditPost>();
     const maxPosts = config.app.maxPosts || 500;
 
     // Prepare all search strategies to run in parallel
@@ -254,9 +622,8 @@ JSON array:`;
       if (result.status === 'fulfilled' && result.value) {
         for (const post of result.value) {
           // Avoid duplicates by checking post ID
-          const exists = allPosts.some(p => p.id === post.id);
-          if (!exists) {
-            allPosts.push(post);
+          if (!postsById.has(post.id)) {
+            postsById.set(post.id, post);
           }
         }
       } else if (result.status === 'rejected') {
@@ -264,6 +631,7 @@ JSON array:`;
       }
     }
 
+    const allPosts = Array.from(postsById.values());
     console.log(`✅ Comprehensive search completed. Found ${allPosts.length} unique posts total`);
     
     if (allPosts.length === 0) {
@@ -280,7 +648,33 @@ JSON array:`;
     );
 
     // Return all posts up to limit
-    return sortedPosts.slice(0, Math.min(maxPosts, allPosts.length));
+    const topPosts = sortedPosts.slice(0, Math.min(maxPosts, allPosts.length));
+
+    // Harvest comment trees for the most engaged posts, where most complaints live
+    await this.attachComments(topPosts.slice(0, config.app.maxCommentPosts));
+
+    return topPosts;
+  }
+
+  /**
+   * Fetch and attach comment trees to posts in parallel
+   */
+  private async attachComments(posts: RedditPost[]): Promise<void> {
+    const withComments = posts.filter(post => post.num_comments > 0);
+    console.log(`💬 Fetching comments for ${withComments.length} top posts`);
+
+    const commentResults = await Promise.allSettled(
+      withComments.map(async (post) => {
+        post.comments = await this.getPostComments(post.id);
+        return post.comments.length;
+      })
+    );
+
+    const totalComments = commentResults.reduce(
+      (sum, result) => sum + (result.status === 'fulfilled' ? result.value : 0),
+      0
+    );
+    console.log(`✅ Collected ${totalComments} comments`);
   }
 
   /**
@@ -292,29 +686,13 @@ JSON array:`;
     try {
       console.log(`🔍 Direct search: "${searchTerm}"`);
       
-      const searchResults = await this.reddit.search({
-        query: searchTerm,
+      const searchResults = await this.runSearch('direct', {
+        query: this.termQuery(searchTerm),
         sort: 'relevance',
-        time: 'all'
+        time: this.timeFilter('all')
       });
 
-      const limitedResults = Array.from(searchResults).slice(0, limit);
-      for (const post of limitedResults) {
-        if (post.title && (post.selftext || post.title.length > 15)) {
-          posts.push({
-            id: post.id,
-            title: post.title,
-            selftext: post.selftext || '',
-            score: post.score,
-            num_comments: post.num_comments,
-            url: post.url,
-            subreddit: post.subreddit.display_name,
-            created_utc: post.created_utc,
-            author: post.author?.name || '[deleted]',
-            comments: []
-          });
-        }
-      }
+      posts.push(...searchResults.slice(0, limit).filter(post => this.isSubstantivePost(post)));
       
       console.log(`✅ Direct search found ${posts.length} posts`);
     } catch (error) {
@@ -333,33 +711,23 @@ JSON array:`;
     try {
       console.log(`🤖 AI subreddit search for: "${searchTerm}"`);
       
-      const suggestedSubreddits = await this.getAISuggestedSubreddits(searchTerm);
-      const postsPerSubreddit = Math.floor(limit / suggestedSubreddits.length);
+      this.subredditSelection = await this.selectSubreddits(searchTerm);
+      const suggestedSubreddits = this.subredditSelection.map(sub => sub.name);
+      const postsPerSubreddit = Math.floor(limit / Math.max(1, suggestedSubreddits.length));
       
       // Search all suggested subreddits in parallel
       const subredditPromises = suggestedSubreddits.map(async (subredditName) => {
         try {
-          const subredditPosts = await this.reddit.getSubreddit(subredditName).search({
-            query: searchTerm,
+          const subredditPosts = await this.runSearch('ai-subreddit', {
+            query: this.termQuery(searchTerm),
+            subreddit: subredditName,
             sort: 'relevance',
-            time: 'all'
+            time: this.timeFilter('all')
           });
 
-          const limitedPosts = Array.from(subredditPosts).slice(0, postsPerSubreddit);
-          return limitedPosts
-            .filter(post => post.title && (post.selftext || post.title.length > 15))
-            .map(post => ({
-              id: post.id,
-              title: post.title,
-              selftext: post.selftext || '',
-              score: post.score,
-              num_comments: post.num_comments,
-              url: post.url,
-              subreddit: post.subreddit.display_name,
-              created_utc: post.created_utc,
-              author: post.author?.name || '[deleted]',
-              comments: []
-            }));
+          return subredditPosts
+            .slice(0, postsPerSubreddit)
+            .filter(post => this.isSubstantivePost(post));
         } catch (error) {
           console.warn(`⚠️ Failed to search r/${subredditName}:`, error);
           return [];
@@ -391,47 +759,28 @@ JSON array:`;
     try {
       console.log(`� Variation search for: "${searchTerm}"`);
       
-      const searchVariations = [
-        `${searchTerm} problems`,
-        `${searchTerm} issues`,
-        `${searchTerm} complaints`,
-        `${searchTerm} broken`,
-        `${searchTerm} disappointed`,
-        `${searchTerm} hate`,
-        `${searchTerm} sucks`,
-        `${searchTerm} terrible`,
-        `${searchTerm} awful`,
-        `${searchTerm} worst`
-      ];
-
-      const postsPerVariation = Math.floor(limit / searchVariations.length);
+      const searchVariations = await expandQueries(searchTerm, this.queryExpansion, term => this.getAISynonyms(term));
+      this.expandedQueries = searchVariations;
+
+      const postsPerVariation = Math.floor(limit / Math.max(1, searchVariations.length));
       
       // Search all variations in parallel
       const variationPromises = searchVariations.map(async (variation) => {
         try {
-          const searchResults = await this.reddit.search({
-            query: variation,
+          const searchResults = await this.runSearch('variation', {
+            query: variation.query,
             sort: 'relevance',
-            time: 'year' // Broader time range for variations
+            time: this.timeFilter('year') // Broader time range for variations
           });
 
-          const limitedResults = Array.from(searchResults).slice(0, postsPerVariation);
-          return limitedResults
-            .filter(post => post.title && (post.selftext || post.title.length > 15))
-            .map(post => ({
-              id: post.id,
-              title: post.title,
-              selftext: post.selftext || '',
-              score: post.score,
-              num_comments: post.num_comments,
-              url: post.url,
-              subreddit: post.subreddit.display_name,
-              created_utc: post.created_utc,
-              author: post.author?.name || '[deleted]',
-              comments: []
-            }));
+          const kept = searchResults
+            .slice(0, postsPerVariation)
+            .filter(post => this.isSubstantivePost(post));
+          variation.posts = kept.length;
+          return kept;
         } catch (error) {
-          console.warn(`⚠️ Variation search failed for "${variation}":`, error);
+          console.warn(`⚠️ Variation search failed for "${variation.query}":`, error);
+          variation.posts = 0;
           return [];
         }
       });
@@ -461,33 +810,21 @@ JSON array:`;
     try {
       console.log(`⏰ Time-based search for: "${searchTerm}"`);
       
-      const timeRanges = ['week', 'month', 'year', 'all'];
+      const timeRanges = limitTimeFilters(['week', 'month', 'year', 'all'], this.timeWindow);
       const postsPerTimeRange = Math.floor(limit / timeRanges.length);
       
       // Search across different time ranges in parallel
       const timePromises = timeRanges.map(async (timeRange) => {
         try {
-          const searchResults = await this.reddit.search({
-            query: searchTerm,
+          const searchResults = await this.runSearch('time-range', {
+            query: this.termQuery(searchTerm),
             sort: 'top', // Top posts in each time range
-            time: timeRange as any
+            time: timeRange
           });
 
-          const limitedResults = Array.from(searchResults).slice(0, postsPerTimeRange);
-          return limitedResults
-            .filter(post => post.title && (post.selftext || post.title.length > 15))
-            .map(post => ({
-              id: post.id,
-              title: post.title,
-              selftext: post.selftext || '',
-              score: post.score,
-              num_comments: post.num_comments,
-              url: post.url,
-              subreddit: post.subreddit.display_name,
-              created_utc: post.created_utc,
-              author: post.author?.name || '[deleted]',
-              comments: []
-            }));
+          return searchResults
+            .slice(0, postsPerTimeRange)
+            .filter(post => this.isSubstantivePost(post));
         } catch (error) {
           console.warn(`⚠️ Time-based search failed for "${timeRange}":`, error);
           return [];
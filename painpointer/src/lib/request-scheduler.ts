@@ -0,0 +1,195 @@
+// Concurrency-capped, rate-limit-aware scheduler for outbound API requests
+
+export interface RateLimitState {
+  remaining: number; // Requests left in the current window
+  resetAt: number; // Epoch ms when the window resets
+}
+
+export interface RequestSchedulerOptions {
+  concurrency: number; // Maximum requests in flight
+  bucketSize: number; // Token bucket capacity (burst size)
+  refillPerSecond: number; // Token refill rate when no rate-limit headers are known
+  maxRetries: number; // Retries on 429/5xx/timeouts
+  baseBackoffMs: number; // First retry delay, doubled on each attempt
+  requestTimeoutMs: number; // Per-request timeout
+  readRateLimit?: () => RateLimitState | undefined; // Latest rate-limit headers from the API
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class RequestScheduler {
+  private options: RequestSchedulerOptions;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private tokens: number;
+  private refillPerMs: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private throttleListeners = new Set<(details: string) => void>();
+
+  constructor(options: RequestSchedulerOptions) {
+    this.options = options;
+    this.tokens = options.bucketSize;
+    this.refillPerMs = options.refillPerSecond / 1000;
+  }
+
+  /**
+   * Get told whenever requests are being held back; returns the unsubscribe function
+   */
+  onThrottle(listener: (details: string) => void): () => void {
+    this.throttleListeners.add(listener);
+    return () => {
+      this.throttleListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run a request once a concurrency slot and a rate-limit token are available,
+   * retrying with exponential backoff on 429/5xx responses and timeouts
+   */
+  async schedule<T>(label: string, task: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.acquireToken();
+
+        try {
+          return await this.withTimeout(task(), label);
+        } catch (error) {
+          if (attempt >= this.options.maxRetries || !this.isRetryable(error)) {
+            throw error;
+          }
+
+          if (this.statusOf(error) === 429) {
+            this.tokens = 0; // Reddit says we're out, whatever our bucket thinks
+          }
+
+          const delay = this.options.baseBackoffMs * 2 ** attempt + Math.random() * 250;
+          this.report(`${label} failed (${this.describe(error)}), retrying in ${(delay / 1000).toFixed(1)}s ` +
+            `(attempt ${attempt + 1}/${this.options.maxRetries})`);
+          await sleep(delay);
+        } finally {
+          this.syncRateLimit();
+        }
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot straight to us
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async acquireToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+
+      if (now < this.blockedUntil) {
+        const wait = this.blockedUntil - now;
+        this.report(`Reddit rate limit exhausted, pausing ${(wait / 1000).toFixed(0)}s (${this.waiting.length} requests queued)`);
+        await sleep(wait);
+        continue;
+      }
+
+      if (this.blockedUntil) {
+        // A fresh rate-limit window has started
+        this.blockedUntil = 0;
+        this.tokens = this.options.bucketSize;
+        this.lastRefill = now;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+
+      const wait = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      if (wait >= 1000) {
+        this.report(`Throttling Reddit requests, next slot in ${(wait / 1000).toFixed(1)}s (${this.waiting.length} requests queued)`);
+      }
+      await sleep(wait);
+    }
+  }
+
+  private refill(now: number) {
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.options.bucketSize, this.tokens + elapsed * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Follow the API's own rate-limit headers: spread the remaining budget over the rest of the window
+   */
+  private syncRateLimit() {
+    const state = this.options.readRateLimit?.();
+    if (!state || typeof state.remaining !== 'number' || typeof state.resetAt !== 'number') return;
+
+    const now = Date.now();
+    const windowMs = state.resetAt - now;
+    if (windowMs <= 0) return;
+
+    this.refill(now);
+    if (state.remaining < 1) {
+      this.tokens = 0;
+      this.blockedUntil = state.resetAt;
+      this.refillPerMs = this.options.refillPerSecond / 1000;
+      return;
+    }
+
+    this.tokens = Math.min(this.tokens, state.remaining);
+    this.refillPerMs = Math.min(this.options.refillPerSecond / 1000, state.remaining / windowMs);
+  }
+
+  private withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Request timed out after ${this.options.requestTimeoutMs}ms: ${label}`)),
+        this.options.requestTimeoutMs
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private isRetryable(error: unknown): boolean {
+    const status = this.statusOf(error);
+    if (status === 429 || (status !== undefined && status >= 500)) return true;
+    if (error instanceof Error) {
+      return error.name === 'RateLimitError' || error.message.startsWith('Request timed out');
+    }
+    return false;
+  }
+
+  private statusOf(error: unknown): number | undefined {
+    const status = (error as { statusCode?: unknown } | undefined)?.statusCode;
+    return typeof status === 'number' ? status : undefined;
+  }
+
+  private describe(error: unknown): string {
+    const status = this.statusOf(error);
+    if (status !== undefined) return `HTTP ${status}`;
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private report(details: string) {
+    console.warn(`⏳ ${details}`);
+    this.throttleListeners.forEach(listener => listener(details));
+  }
+}
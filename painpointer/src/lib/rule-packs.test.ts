@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getRulePack, getRulePackForLanguage, listRulePacks, matchRules } from './rule-packs';
+
+describe('listRulePacks', () => {
+  it('lists selectable packs without their language variants', () => {
+    const packs = listRulePacks();
+    expect(packs).toEqual(expect.arrayContaining(['default', 'automotive', 'software']));
+    expect(packs).not.toContain('default-de');
+  });
+
+  it('still resolves language variants per post', () => {
+    expect(getRulePackForLanguage('software', 'de').id).toBe('default-de');
+    expect(getRulePackForLanguage('software', 'en').id).toBe('software');
+  });
+});
+
+describe('matchRules', () => {
+  it('matches keywords as whole words', () => {
+    const hardware = getRulePack('hardware');
+    expect(matchRules('The card arrived DOA', hardware).rules).toContain('keyword:doa');
+    expect(matchRules('That sounds doable', hardware).rules).not.toContain('keyword:doa');
+  });
+
+  it('matches keywords ending in * as prefixes', () => {
+    const pack = getRulePack('default');
+    expect(matchRules('It crashes on startup and the bugs are everywhere', pack).rules)
+      .toEqual(expect.arrayContaining(['keyword:crash*', 'keyword:bug*']));
+    expect(matchRules('Remember to debug it', pack).rules).not.toContain('keyword:bug*');
+  });
+
+  it('applies Unicode-aware boundaries', () => {
+    const german = getRulePack('default-de');
+    expect(matchRules('Das Gerät ist kaputtgegangen', german).rules).toContain('keyword:kaputt*');
+    expect(matchRules('Ein echtes Problemchen', german).rules).toContain('keyword:problem*');
+    expect(matchRules('Die Stadt ist überteuert', german).rules).toContain('keyword:überteuert');
+  });
+
+  it('only counts a recall as a vehicle recall', () => {
+    const automotive = getRulePack('automotive');
+    expect(matchRules('I recall the dealer said it was fine', automotive).rules).not.toContain('pattern:recall');
+    expect(matchRules('Mine was recalled twice for the same part', automotive).rules).toContain('pattern:recall');
+  });
+
+  it('strips exclusions before scoring', () => {
+    const automotive = getRulePack('automotive');
+    expect(matchRules('The customer service center was lovely', automotive).rules).not.toContain('keyword:service center');
+  });
+});
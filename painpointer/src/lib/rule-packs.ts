@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { config } from './config';
+import defaultPack from '../rules/default.json';
+import automotivePack from '../rules/automotive.json';
+import softwarePack from '../rules/software.json';
+import hardwarePack from '../rules/hardware.json';
+import telecomPack from '../rules/telecom.json';
+import subscriptionPack from '../rules/subscription.json';
+import germanPack from '../rules/default-de.json';
+import frenchPack from '../rules/default-fr.json';
+import spanishPack from '../rules/default-es.json';
+import portuguesePack from '../rules/default-pt.json';
+import { Language, SUPPORTED_LANGUAGES } from './language';
+
+// Loadable complaint-detection rules: weighted keywords, regexes and exclusions per domain
+
+export interface RulePackPattern {
+  id: string;
+  pattern: string;
+  flags?: string; // Defaults to 'i'
+  weight: number;
+}
+
+export interface RulePack {
+  id: string;
+  name: string;
+  description?: string;
+  extends?: string; // Parent pack; keyword weights here override the parent's, a weight of 0 disables one
+  threshold?: number; // Minimum total weight for text to count as a pain point (inherited, default 1)
+  keywords?: Record<string, number>; // Whole words or phrases; end one with * to match it as a prefix ("crash*")
+  patterns?: RulePackPattern[]; // Added to the parent's; reusing a parent id replaces that pattern
+  exclusions?: string[]; // Regexes for neutral phrasing, stripped from the text before scoring
+}
+
+interface CompiledRule {
+  id: string; // 'keyword:<keyword>' or 'pattern:<id>'
+  regex: RegExp;
+  weight: number;
+}
+
+export interface CompiledRulePack {
+  id: string;
+  name: string;
+  threshold: number;
+  rules: CompiledRule[];
+  exclusions: RegExp[];
+}
+
+export interface RuleMatch {
+  matched: boolean;
+  score: number;
+  rules: string[]; // Ids of the rules that fired
+}
+
+const BUILT_IN_PACKS = [
+  defaultPack, automotivePack, softwarePack, hardwarePack, telecomPack, subscriptionPack,
+  germanPack, frenchPack, spanishPack, portuguesePack,
+] as RulePack[];
+
+let packs: Map<string, RulePack> | undefined;
+const compiled = new Map<string, CompiledRulePack>();
+
+/**
+ * Built-in packs plus any .json/.yaml/.yml packs in RULE_PACK_DIR (a file pack replaces a built-in with the same id)
+ */
+function loadRulePacks(): Map<string, RulePack> {
+  if (packs) return packs;
+
+  packs = new Map(BUILT_IN_PACKS.map(pack => [pack.id, pack]));
+  const dir = config.rulePacks.dir;
+  if (dir) {
+    try {
+      for (const file of fs.readdirSync(dir)) {
+        if (!/\.(json|ya?ml)$/.test(file)) continue;
+        try {
+          const raw = fs.readFileSync(path.join(dir, file), 'utf8');
+          const pack = (file.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw)) as RulePack;
+          if (!pack || typeof pack.id !== 'string') {
+            throw new Error('rule pack must have a string "id"');
+          }
+          packs.set(pack.id, { ...pack, name: pack.name || pack.id });
+        } catch (error) {
+          console.error(`Failed to load rule pack ${file}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to read rule pack directory ${dir}:`, error);
+    }
+  }
+  return packs;
+}
+
+/**
+ * Packs an analysis can pick. Language variants ("default-de") are left out: they are applied per post by language.
+ */
+export function listRulePacks(): string[] {
+  const ids = Array.from(loadRulePacks().keys());
+  return ids.filter(id => !SUPPORTED_LANGUAGES.some(language => id.endsWith(`-${language}`) && ids.includes(id.slice(0, -language.length - 1))));
+}
+
+/**
+ * Resolve a pack and its parents into compiled rules, throwing on unknown ids, cycles and bad regexes
+ */
+export function getRulePack(id: string = config.rulePacks.defaultPack): CompiledRulePack {
+  const cached = compiled.get(id);
+  if (cached) return cached;
+
+  const chain: RulePack[] = [];
+  for (let current: string | undefined = id; current; current = chain[chain.length - 1].extends) {
+    const pack = loadRulePacks().get(current);
+    if (!pack) {
+      throw new Error(`Unknown rule pack "${current}". Available rule packs: ${listRulePacks().join(', ')}`);
+    }
+    if (chain.includes(pack)) {
+      throw new Error(`Rule pack "${id}" has a circular "extends" chain`);
+    }
+    chain.push(pack);
+  }
+
+  // Apply from the root down so each pack overrides its parent
+  const keywords = new Map<string, number>();
+  const patterns = new Map<string, RulePackPattern>();
+  const exclusions: string[] = [];
+  let threshold = 1;
+  for (const pack of [...chain].reverse()) {
+    Object.entries(pack.keywords || {}).forEach(([keyword, weight]) => keywords.set(keyword.toLowerCase(), weight));
+    (pack.patterns || []).forEach(pattern => patterns.set(pattern.id, pattern));
+    exclusions.push(...(pack.exclusions || []));
+    threshold = pack.threshold ?? threshold;
+  }
+
+  const compile = (source: string, flags: string, label: string) => {
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      throw new Error(`Rule pack "${id}" has an invalid regex for ${label}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const rules: CompiledRule[] = [
+    ...Array.from(keywords.entries())
+      .filter(([, weight]) => weight > 0)
+      // Whole words, so "doa" doesn't match "doable"; a trailing * matches a prefix instead ("bug*" matches "bugs").
+      // The boundaries are Unicode-aware, since \b treats accented letters as non-word characters
+      .map(([keyword, weight]) => {
+        const isPrefix = keyword.endsWith('*');
+        const escaped = (isPrefix ? keyword.slice(0, -1) : keyword).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return {
+          id: `keyword:${keyword}`,
+          regex: compile(`(?<![\\p{L}\\p{N}_])${escaped}${isPrefix ? '' : '(?![\\p{L}\\p{N}_])'}`, 'iu', `keyword "${keyword}"`),
+          weight,
+        };
+      }),
+    ...Array.from(patterns.values())
+      .filter(pattern => pattern.weight > 0)
+      .map(pattern => ({
+        id: `pattern:${pattern.id}`,
+        regex: compile(pattern.pattern, (pattern.flags ?? 'i').replace('g', ''), `pattern "${pattern.id}"`),
+        weight: pattern.weight,
+      })),
+  ];
+
+  const result: CompiledRulePack = {
+    id,
+    name: chain[0].name,
+    threshold,
+    rules,
+    exclusions: exclusions.map((exclusion, index) => compile(exclusion, 'gi', `exclusion ${index + 1}`)),
+  };
+  compiled.set(id, result);
+  return result;
+}
+
+/**
+ * The pack for text in a given language: "<id>-<language>" if it exists, then "<default>-<language>",
+ * else the requested pack itself (English packs are unsuffixed)
+ */
+export function getRulePackForLanguage(id: string = config.rulePacks.defaultPack, language: Language): CompiledRulePack {
+  if (language === 'en') return getRulePack(id);
+  const localized = [`${id}-${language}`, `${config.rulePacks.defaultPack}-${language}`].find(candidate => loadRulePacks().has(candidate));
+  return getRulePack(localized ?? id);
+}
+
+/**
+ * Score text against a pack once its neutral phrasing has been stripped out
+ */
+export function matchRules(text: string, pack: CompiledRulePack): RuleMatch {
+  const scored = pack.exclusions.reduce((remaining, exclusion) => remaining.replace(exclusion, ' '), text);
+
+  let score = 0;
+  const rules: string[] = [];
+  for (const rule of pack.rules) {
+    if (rule.regex.test(scored)) {
+      score += rule.weight;
+      rules.push(rule.id);
+    }
+  }
+
+  return { matched: score >= pack.threshold, score, rules };
+}
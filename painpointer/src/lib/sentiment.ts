@@ -0,0 +1,128 @@
+// Deterministic lexicon-based sentiment and intensity scoring, no LLM involved
+
+export interface SentimentScore {
+  compound: number; // -1 (very negative) to 1 (very positive)
+  intensity: number; // 0 to 1, how strongly negative the text is (0 for neutral or positive text)
+}
+
+// Word valences on a -4..4 scale; prefixes ending in '*' match any suffix ("crash*" covers "crashes")
+const LEXICON: Record<string, number> = {
+  // Strongly negative
+  'hate*': -3, 'awful': -3, 'terrible': -3, 'horrible': -3, 'worst': -3.2, 'garbage': -3, 'trash': -2.8,
+  'useless': -2.8, 'scam*': -3.2, 'bricked': -3.5, 'brick': -2.5, 'unusable': -3, 'disgusting': -3,
+  'furious': -3.2, 'livid': -3.2, 'nightmare': -3, 'pathetic': -3, 'ridiculous': -2.5, 'unacceptable': -3,
+  'infuriating': -3, 'rage': -2.8, 'dangerous': -2.8, 'unsafe': -2.8,
+  // Negative
+  'broken': -2.2, 'buggy': -2, 'bug*': -1.5, 'crash*': -2, 'freez*': -1.8, 'glitch*': -1.5, 'fail*': -2,
+  'annoying': -2, 'annoyed': -2, 'frustrat*': -2.2, 'disappoint*': -2.2, 'regret*': -2, 'waste*': -2.2,
+  'overpriced': -2, 'expensive': -1.2, 'slow': -1.2, 'laggy': -1.5, 'lag*': -1.2, 'poor': -1.8, 'bad': -1.8,
+  'sucks': -2.5, 'suck': -2.2, 'angry': -2.5, 'upset': -2, 'problem*': -1.2, 'issue*': -1, 'error*': -1.2,
+  'defective': -2.5, 'dead': -1.8, 'died': -1.8, 'rude': -2.2, 'ignored': -1.8, 'misleading': -2.2,
+  'confusing': -1.5, 'unreliable': -2.2, 'worse': -2, 'ugh': -1.5, 'meh': -0.8,
+  // Mild negative, mostly wishes and requests
+  'wish': -0.5, 'missing': -0.8, 'lacking': -1, 'lacks': -1, 'inconvenient': -1.2,
+  // Positive
+  'good': 1.8, 'great': 2.5, 'love*': 2.8, 'awesome': 3, 'amazing': 3, 'excellent': 3, 'perfect': 3,
+  'fine': 0.8, 'nice': 1.8, 'happy': 2.2, 'works': 0.8, 'fixed': 1.2, 'helpful': 1.8, 'recommend': 1.8,
+  'fast': 1.2, 'reliable': 1.8, 'best': 2.8, 'better': 1.2, 'thanks': 1.5, 'glad': 1.8,
+};
+
+// Multi-word expressions scored as a unit, checked before single words
+const PHRASES: Array<[RegExp, number]> = [
+  [/\bnever again\b/gi, -3],
+  [/\bwaste of (money|time)\b/gi, -3],
+  [/\brip[- ]?off\b/gi, -3],
+  [/\bstay away\b/gi, -2.8],
+  [/\b(doesn't|does not|don't|won't|will not) work\b/gi, -2.2],
+  [/\bstopped working\b/gi, -2.5],
+  [/\bfed up\b/gi, -2.5],
+  [/\bthe worst\b/gi, -3.2],
+  [/\bnot worth\b/gi, -2.2],
+  [/\bfell apart\b/gi, -2.2],
+];
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 0.3, really: 0.3, so: 0.25, extremely: 0.5, incredibly: 0.5, absolutely: 0.4, completely: 0.4,
+  totally: 0.4, utterly: 0.5, super: 0.3, insanely: 0.5, ridiculously: 0.4, constantly: 0.3, always: 0.2,
+  slightly: -0.3, somewhat: -0.3, kinda: -0.3, barely: -0.3, little: -0.2, bit: -0.2,
+};
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'nothing', 'nobody', 'none', 'neither', 'nor', 'without', 'hardly',
+  "isn't", "aren't", "wasn't", "weren't", "don't", "doesn't", "didn't", "can't", "cannot", "couldn't",
+  "won't", "wouldn't", "shouldn't", "ain't", 'isnt', 'dont', 'doesnt', 'didnt', 'cant', 'wont',
+]);
+
+const EMOJI: Record<string, number> = {
+  '😡': -3, '🤬': -3.5, '😠': -2.8, '😤': -2, '😢': -2, '😭': -2.5, '😞': -2, '😩': -2.2, '😫': -2.2,
+  '🙄': -1.5, '👎': -2, '💩': -2.5, '🤮': -3, '😒': -1.5, '💸': -1, '🤦': -1.8, '😑': -1,
+  '👍': 1.5, '🙂': 1.2, '😊': 1.8, '😀': 1.8, '😁': 1.8, '😍': 2.8, '❤': 2.5, '🥰': 2.8, '🎉': 2,
+};
+
+const NEGATION_FACTOR = -0.74; // Negated words flip and soften ("not bad" is mildly positive, not "good")
+const CAPS_BOOST = 0.7; // Added magnitude for an ALL-CAPS word in otherwise mixed-case text
+const EXCLAMATION_BOOST = 0.3; // Added magnitude per "!" (up to 3)
+const NORMALIZATION_ALPHA = 15; // Same squashing constant as VADER
+
+// Maps rather than object lookups, so tokens like "constructor" can't hit Object.prototype
+const lexiconWords = new Map(Object.entries(LEXICON));
+const intensifiers = new Map(Object.entries(INTENSIFIERS));
+const lexiconPrefixes = Object.entries(LEXICON)
+  .filter(([word]) => word.endsWith('*'))
+  .map(([word, valence]) => [word.slice(0, -1), valence] as const);
+
+function wordValence(word: string): number | undefined {
+  if (lexiconWords.has(word)) return lexiconWords.get(word);
+  return lexiconPrefixes.find(([prefix]) => word.startsWith(prefix))?.[1];
+}
+
+/**
+ * Score the sentiment of a piece of text. Handles negation in the three preceding words,
+ * intensifiers and dampeners, ALL-CAPS emphasis, exclamation marks and emoji.
+ */
+export function scoreSentiment(text: string): SentimentScore {
+  const valences: number[] = [];
+
+  let remaining = text;
+  for (const [phrase, valence] of PHRASES) {
+    remaining = remaining.replace(phrase, () => {
+      valences.push(valence);
+      return ' ';
+    });
+  }
+
+  for (const [emoji, valence] of Object.entries(EMOJI)) {
+    const occurrences = remaining.split(emoji).length - 1;
+    for (let i = 0; i < occurrences; i++) valences.push(valence);
+  }
+
+  const mixedCase = /[a-z]/.test(remaining);
+  const tokens = remaining.match(/[A-Za-z']+/g) || [];
+  tokens.forEach((token, index) => {
+    const word = token.toLowerCase();
+    let valence = wordValence(word);
+    if (valence === undefined) return;
+
+    const previous = tokens.slice(Math.max(0, index - 3), index).map(t => t.toLowerCase());
+    const boost = previous.reduce((sum, prev) => sum + (intensifiers.get(prev) ?? 0), 0)
+      + (mixedCase && token.length > 2 && token === token.toUpperCase() ? CAPS_BOOST : 0);
+    valence += Math.sign(valence) * boost * Math.abs(valence) / 2;
+
+    if (previous.some(prev => NEGATIONS.has(prev) || prev.endsWith("n't"))) {
+      valence *= NEGATION_FACTOR;
+    }
+    valences.push(valence);
+  });
+
+  let sum = valences.reduce((total, valence) => total + valence, 0);
+  if (sum !== 0) {
+    const exclamations = Math.min(3, (text.match(/!/g) || []).length);
+    sum += Math.sign(sum) * exclamations * EXCLAMATION_BOOST;
+  }
+
+  const compound = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+  return {
+    compound: Math.round(compound * 1000) / 1000,
+    intensity: Math.round(Math.max(0, -compound) * 1000) / 1000,
+  };
+}
@@ -0,0 +1,129 @@
+import { config } from '../config';
+import { fixtureStore } from '../fixture-store';
+import { SourceAdapter, SourceDocument, SourceFetchOptions, SourceFetchResult, SourceReply } from './types';
+
+interface HackerNewsHit {
+  objectID: string;
+  title: string | null;
+  url: string | null;
+  author: string | null;
+  points: number | null;
+  story_text: string | null;
+  num_comments: number | null;
+  created_at_i: number;
+}
+
+interface HackerNewsItem {
+  id: number;
+  author: string | null;
+  text: string | null;
+  points: number | null;
+  created_at_i: number;
+  children: HackerNewsItem[];
+}
+
+/**
+ * Hacker News stories and comment threads via the public Algolia search API
+ */
+export class HackerNewsSourceAdapter implements SourceAdapter {
+  readonly id = 'hackernews';
+  readonly name = 'Hacker News';
+
+  async fetchDocuments(searchTerm: string, options: SourceFetchOptions = {}): Promise<SourceFetchResult> {
+    console.log(`🔍 Hacker News search: "${searchTerm}"`);
+
+    const params = new URLSearchParams({
+      query: searchTerm,
+      tags: 'story',
+      hitsPerPage: String(config.hackerNews.maxStories),
+    });
+    if (options.timeWindow) {
+      params.set('numericFilters', `created_at_i>=${options.timeWindow.from},created_at_i<=${options.timeWindow.to}`);
+    }
+    const { hits } = await this.getJson<{ hits: HackerNewsHit[] }>(`/search?${params}`);
+
+    const documents: SourceDocument[] = hits
+      .filter(hit => hit.title)
+      .map(hit => ({
+        id: hit.objectID,
+        source: this.id,
+        title: hit.title!,
+        body: this.toPlainText(hit.story_text),
+        score: hit.points ?? 0,
+        commentCount: hit.num_comments ?? 0,
+        url: hit.url || `https://news.ycombinator.com/item?id=${hit.objectID}`,
+        community: 'hackernews',
+        timestamp: hit.created_at_i,
+        author: hit.author || '[deleted]',
+      }));
+
+    // Comment threads for the most discussed stories
+    const threaded = [...documents]
+      .sort((a, b) => b.commentCount - a.commentCount)
+      .slice(0, config.app.maxCommentPosts)
+      .filter(doc => doc.commentCount > 0);
+
+    await Promise.allSettled(threaded.map(async (doc) => {
+      try {
+        const item = await this.getJson<HackerNewsItem>(`/items/${doc.id}`);
+        const budget = { remaining: config.app.maxComments };
+        doc.replies = this.collectReplies(item.children, 0, budget);
+      } catch (error) {
+        console.warn(`⚠️ Failed to fetch Hacker News thread ${doc.id}:`, error);
+      }
+    }));
+
+    console.log(`✅ Hacker News search found ${documents.length} stories`);
+    return { documents };
+  }
+
+  private collectReplies(children: HackerNewsItem[], depth: number, budget: { remaining: number }): SourceReply[] {
+    const replies: SourceReply[] = [];
+
+    for (const child of children) {
+      if (budget.remaining <= 0) break;
+      if (!child.text || !child.author) continue; // Deleted or flagged
+
+      budget.remaining--;
+      replies.push({
+        id: String(child.id),
+        body: this.toPlainText(child.text),
+        score: child.points ?? 0,
+        timestamp: child.created_at_i,
+        author: child.author,
+        replies: depth + 1 < config.app.maxCommentDepth
+          ? this.collectReplies(child.children, depth + 1, budget)
+          : [],
+      });
+    }
+
+    return replies;
+  }
+
+  private async getJson<T>(path: string): Promise<T> {
+    return fixtureStore.run('hackernews', { path }, async () => {
+      const response = await fetch(`${config.hackerNews.apiUrl}${path}`);
+      if (!response.ok) {
+        throw new Error(`Hacker News API responded with ${response.status}`);
+      }
+      return response.json() as Promise<T>;
+    });
+  }
+
+  /**
+   * HN text fields are HTML fragments
+   */
+  private toPlainText(html: string | null): string {
+    if (!html) return '';
+    return html
+      .replace(/<p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&quot;/g, '"')
+      .replace(/&#x27;/g, "'")
+      .replace(/&#x2F;/g, '/')
+      .replace(/&gt;/g, '>')
+      .replace(/&lt;/g, '<')
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+}
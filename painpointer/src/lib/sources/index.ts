@@ -0,0 +1,30 @@
+import { SourceAdapter } from './types';
+import { RedditSourceAdapter } from './reddit-source';
+import { HackerNewsSourceAdapter } from './hacker-news-source';
+import { RedditArchiveSourceAdapter } from './reddit-archive-source';
+
+export * from './types';
+
+// Registered adapters, keyed by the id requests use to select them
+const SOURCE_FACTORIES: Record<string, () => SourceAdapter> = {
+  reddit: () => new RedditSourceAdapter(),
+  hackernews: () => new HackerNewsSourceAdapter(),
+  'reddit-archive': () => new RedditArchiveSourceAdapter(),
+};
+
+export const AVAILABLE_SOURCES = Object.keys(SOURCE_FACTORIES);
+
+export const DEFAULT_SOURCES = ['reddit'];
+
+/**
+ * Instantiate adapters for the requested source ids
+ */
+export function createSourceAdapters(sourceIds: string[]): SourceAdapter[] {
+  return sourceIds.map(id => {
+    const factory = SOURCE_FACTORIES[id];
+    if (!factory) {
+      throw new Error(`Unknown source "${id}". Available sources: ${AVAILABLE_SOURCES.join(', ')}`);
+    }
+    return factory();
+  });
+}
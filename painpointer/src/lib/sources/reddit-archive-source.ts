@@ -0,0 +1,24 @@
+import { config } from '../config';
+import { searchRedditArchive } from '../reddit-archive';
+import { redditPostToDocument } from './reddit-source';
+import { SourceAdapter, SourceFetchOptions, SourceFetchResult } from './types';
+
+/**
+ * Offline Reddit analysis over local Pushshift-style dumps (.jsonl or .zst)
+ */
+export class RedditArchiveSourceAdapter implements SourceAdapter {
+  readonly id = 'reddit-archive';
+  readonly name = 'Reddit archive';
+
+  async fetchDocuments(searchTerm: string, options: SourceFetchOptions = {}): Promise<SourceFetchResult> {
+    const posts = await searchRedditArchive(searchTerm, {
+      submissionsPath: config.archive.submissionsPath,
+      commentsPath: config.archive.commentsPath,
+      subreddits: options.communities,
+      timeWindow: options.timeWindow,
+    });
+
+    // Archived posts are still Reddit content, so they link and render like live ones, but keep their own provenance
+    return { documents: posts.map(post => redditPostToDocument(post, this.id)) };
+  }
+}
@@ -0,0 +1,57 @@
+import { RedditClient, RedditPost, RedditComment } from '../reddit-client';
+import { SourceAdapter, SourceDocument, SourceFetchOptions, SourceFetchResult, SourceReply } from './types';
+
+/**
+ * Map a Reddit comment tree onto normalized replies
+ */
+export function redditCommentToReply(comment: RedditComment): SourceReply {
+  return {
+    id: comment.id,
+    body: comment.body,
+    score: comment.score,
+    timestamp: comment.created_utc,
+    author: comment.author,
+    replies: comment.replies?.map(redditCommentToReply),
+  };
+}
+
+/**
+ * Map a Reddit post onto a normalized document, attributed to the adapter that produced it
+ */
+export function redditPostToDocument(post: RedditPost, source: string = 'reddit'): SourceDocument {
+  return {
+    id: post.id,
+    source,
+    title: post.title,
+    body: post.selftext,
+    score: post.score,
+    commentCount: post.num_comments,
+    upvoteRatio: post.upvote_ratio,
+    url: post.url,
+    community: post.subreddit,
+    timestamp: post.created_utc,
+    author: post.author,
+    replies: post.comments?.map(redditCommentToReply),
+  };
+}
+
+export class RedditSourceAdapter implements SourceAdapter {
+  readonly id = 'reddit';
+  readonly name = 'Reddit';
+
+  async fetchDocuments(searchTerm: string, options: SourceFetchOptions = {}): Promise<SourceFetchResult> {
+    const client = new RedditClient({
+      analysisId: options.analysisId,
+      timeWindow: options.timeWindow,
+      queryExpansion: options.queryExpansion,
+      forceRefresh: options.forceRefresh,
+      llmFallbacks: options.llmFallbacks,
+    });
+    const posts = await client.getPostsWithComments(searchTerm);
+    return {
+      documents: posts.map(post => redditPostToDocument(post)),
+      subreddits: client.getSubredditSelection(),
+      queries: client.getExpandedQueries(),
+    };
+  }
+}
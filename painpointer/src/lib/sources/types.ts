@@ -0,0 +1,51 @@
+import { TimeWindow } from '../time-window';
+import type { SubredditCandidate } from '../reddit-client';
+import type { ExpandedQuery, QueryExpansionOptions } from '../query-expansion';
+import type { FallbackLog } from '../llm/fallbacks';
+
+// Normalized content shared by every source the pipeline can read from
+
+export interface SourceReply {
+  id: string;
+  body: string;
+  score: number;
+  timestamp: number; // Unix seconds
+  author: string;
+  replies?: SourceReply[];
+}
+
+export interface SourceDocument {
+  id: string;
+  source: string; // Adapter id the document came from (e.g. 'reddit')
+  title: string;
+  body: string;
+  score: number;
+  commentCount: number;
+  upvoteRatio?: number; // Share of votes that are upvotes (0-1), for sources that report it
+  url: string;
+  community: string; // Subreddit, forum board, app store, ...
+  timestamp: number; // Unix seconds
+  author: string;
+  replies?: SourceReply[];
+}
+
+export interface SourceFetchOptions {
+  analysisId?: string; // Progress entry adapters may report status to
+  timeWindow?: TimeWindow; // Adapters must only return documents created inside this window
+  communities?: string[]; // Restrict to these communities, for adapters that can filter by community
+  queryExpansion?: QueryExpansionOptions; // Aliases, domain templates and exclusions for query expansion
+  forceRefresh?: boolean; // Ignore cached results and refetch from the source
+  llmFallbacks?: FallbackLog; // Where adapters record LLM steps that fell back (e.g. subreddit suggestions)
+}
+
+export interface SourceFetchResult {
+  documents: SourceDocument[];
+  subreddits?: SubredditCandidate[]; // Validated, scored subreddits the search covered (Reddit only)
+  queries?: ExpandedQuery[]; // Expanded queries the search used, with the posts each contributed
+}
+
+export interface SourceAdapter {
+  readonly id: string;
+  readonly name: string;
+  fetchDocuments(searchTerm: string, options?: SourceFetchOptions): Promise<SourceFetchResult>;
+}
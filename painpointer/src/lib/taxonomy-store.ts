@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { config } from './config';
+
+// Saved category taxonomy per topic, so repeated analyses map onto the same category IDs and can be compared over time
+
+export interface TaxonomyCategory {
+  id: string; // Stable once assigned, even if later runs would have named the category differently
+  name: string;
+  description: string;
+  createdAt: string; // ISO timestamp of the run that proposed it
+}
+
+export interface TaxonomyRun {
+  analyzedAt: string;
+  totalPainPoints: number;
+  counts: Record<string, number>; // Category id -> pain points, including 'uncategorized'
+  newCategoryIds: string[]; // Categories this run added to the taxonomy
+}
+
+export interface Taxonomy {
+  topic: string; // Normalized search term
+  categories: TaxonomyCategory[];
+  runs: TaxonomyRun[]; // Oldest first, at most config.taxonomy.maxRuns
+}
+
+/**
+ * Topic key for a search term: case and whitespace differences analyze the same topic
+ */
+export function normalizeTopic(searchTerm: string): string {
+  return searchTerm.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+class TaxonomyStore {
+  private getFilePath(topic: string): string {
+    const slug = topic.replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 40) || 'topic';
+    const hash = crypto.createHash('sha256').update(topic).digest('hex').substring(0, 8);
+    return path.join(config.taxonomy.dir, `${slug}-${hash}.json`);
+  }
+
+  get(searchTerm: string): Taxonomy | undefined {
+    try {
+      const filePath = this.getFilePath(normalizeTopic(searchTerm));
+      if (!fs.existsSync(filePath)) {
+        return undefined;
+      }
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as Taxonomy;
+    } catch (error) {
+      console.error('Failed to read taxonomy:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Append a run to the topic's history and add the categories it proposed. Existing categories are never renamed.
+   * Returns the updated taxonomy and the categories actually added (another run may have saved some of them first).
+   */
+  recordRun(
+    searchTerm: string,
+    newCategories: Array<Omit<TaxonomyCategory, 'createdAt'>>,
+    run: Omit<TaxonomyRun, 'newCategoryIds'>
+  ): { taxonomy: Taxonomy; added: TaxonomyCategory[] } {
+    const topic = normalizeTopic(searchTerm);
+    const taxonomy = this.get(searchTerm) || { topic, categories: [], runs: [] };
+    const known = new Set(taxonomy.categories.map(category => category.id));
+    const added = newCategories
+      .filter(category => !known.has(category.id))
+      .map(category => ({ ...category, createdAt: run.analyzedAt }));
+
+    const updated: Taxonomy = {
+      topic,
+      categories: [...taxonomy.categories, ...added],
+      runs: [...taxonomy.runs, { ...run, newCategoryIds: added.map(category => category.id) }].slice(-config.taxonomy.maxRuns),
+    };
+
+    try {
+      const filePath = this.getFilePath(topic);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // Write then rename, so a crash mid-write can't lose the taxonomy the IDs depend on
+      fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(updated, null, 2));
+      fs.renameSync(`${filePath}.tmp`, filePath);
+    } catch (error) {
+      console.error('Failed to write taxonomy:', error);
+    }
+    return { taxonomy: updated, added };
+  }
+}
+
+export const taxonomyStore = new TaxonomyStore();
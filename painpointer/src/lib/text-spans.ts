@@ -0,0 +1,89 @@
+import { config } from './config';
+import { CompiledRulePack, matchRules } from './rule-packs';
+
+// Sentence splitting and complaint span selection, with offsets into the original text
+
+export interface TextSpan {
+  start: number; // Character offset, inclusive
+  end: number; // Character offset, exclusive
+}
+
+export interface ComplaintSpan {
+  content: string; // Best-scoring sentence plus surrounding context, whitespace collapsed
+  span: TextSpan; // The best-scoring sentence itself
+}
+
+// Sentence ends: terminal punctuation (and closing quotes/brackets) before whitespace, or a line break.
+// Requiring whitespace after the punctuation keeps "3.5" and "v2.1" whole.
+const SENTENCE_BOUNDARY = /[.!?]+["')\]]*(?=\s|$)|\n+/g;
+
+/**
+ * Split text into trimmed sentence spans
+ */
+export function splitSentences(text: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const trimmed = raw.trim();
+    if (trimmed) {
+      const offset = start + (raw.length - raw.trimStart().length);
+      spans.push({ start: offset, end: offset + trimmed.length });
+    }
+  };
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const index = match.index ?? 0;
+    push(match[0].startsWith('\n') ? index : index + match[0].length);
+    start = index + match[0].length;
+  }
+  push(text.length);
+
+  return spans;
+}
+
+/**
+ * Pick the sentence with the strongest complaint signal and widen it with neighbouring
+ * sentences while it stays within config.app.maxSpanLength
+ */
+export function extractComplaintSpan(text: string, rulePack: CompiledRulePack): ComplaintSpan {
+  const sentences = splitSentences(text);
+  if (sentences.length === 0) {
+    return { content: '', span: { start: 0, end: 0 } };
+  }
+
+  // Earliest sentence wins ties, so a post's opening complaint beats a later repeat
+  let best = 0;
+  let bestScore = -1;
+  sentences.forEach((sentence, index) => {
+    const score = matchRules(text.slice(sentence.start, sentence.end), rulePack).score;
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+
+  const maxLength = config.app.maxSpanLength;
+  let first = best;
+  let last = best;
+  const lengthWith = (from: number, to: number) => sentences[to].end - sentences[from].start;
+  // Widen one sentence on each side per pass so the context stays balanced
+  for (let widened = true; widened;) {
+    widened = false;
+    if (first > 0 && lengthWith(first - 1, last) <= maxLength) {
+      first--;
+      widened = true;
+    }
+    if (last < sentences.length - 1 && lengthWith(first, last + 1) <= maxLength) {
+      last++;
+      widened = true;
+    }
+  }
+
+  const context = text.slice(sentences[first].start, sentences[last].end).replace(/\s+/g, ' ');
+  return {
+    content: context.length > maxLength ? context.substring(0, maxLength) + '...' : context,
+    span: { start: sentences[best].start, end: sentences[best].end },
+  };
+}
@@ -0,0 +1,102 @@
+// Analysis time windows and the Reddit search filters that cover them
+
+export interface TimeWindow {
+  from: number; // Unix seconds, inclusive
+  to: number; // Unix seconds, inclusive
+}
+
+// Either "last N days" or an absolute ISO date range (open-ended ranges run until now)
+export type TimeWindowInput = { days: number } | { from: string; to?: string };
+
+export type RedditTimeFilter = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+// Reddit's time filters, narrowest first, with the span each covers in seconds
+const REDDIT_TIME_FILTERS: Array<[RedditTimeFilter, number]> = [
+  ['hour', 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['month', 31 * 24 * 60 * 60],
+  ['year', 366 * 24 * 60 * 60],
+  ['all', Infinity],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turn a request's time window into absolute bounds, throwing on malformed input
+ */
+export function resolveTimeWindow(input: unknown, now: number = Date.now()): TimeWindow | undefined {
+  if (input === undefined || input === null) return undefined;
+
+  const nowSeconds = Math.floor(now / 1000);
+  const window = input as Partial<{ days: unknown; from: unknown; to: unknown }>;
+
+  if (window.days !== undefined) {
+    if (typeof window.days !== 'number' || !(window.days > 0)) {
+      throw new Error('timeWindow.days must be a positive number');
+    }
+    return { from: nowSeconds - Math.round(window.days * 24 * 60 * 60), to: nowSeconds };
+  }
+
+  if (typeof window.from === 'string') {
+    const from = Date.parse(window.from);
+    // A date-only end (e.g. "2024-05-31") parses to the start of that day; the window includes all of it
+    const isDateOnly = typeof window.to === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(window.to.trim());
+    const to = typeof window.to === 'string' ? Date.parse(window.to) + (isDateOnly ? DAY_MS - 1 : 0) : now;
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      throw new Error('timeWindow.from and timeWindow.to must be ISO dates');
+    }
+    if (from > to) {
+      throw new Error('timeWindow.from must be before timeWindow.to');
+    }
+    return { from: Math.floor(from / 1000), to: Math.floor(to / 1000) };
+  }
+
+  throw new Error('timeWindow must be { days } or { from, to? }');
+}
+
+export function isWithinWindow(timestamp: number, window?: TimeWindow): boolean {
+  return !window || (timestamp >= window.from && timestamp <= window.to);
+}
+
+/**
+ * Oldest creation time (Unix seconds) a Reddit search with this time filter returns; 0 for 'all' or no filter
+ */
+export function timeFilterStart(filter: RedditTimeFilter | undefined, now: number = Date.now()): number {
+  const span = REDDIT_TIME_FILTERS.find(([name]) => name === filter)?.[1] ?? Infinity;
+  return Number.isFinite(span) ? Math.floor(now / 1000) - span : 0;
+}
+
+/**
+ * Narrowest Reddit time filter that still reaches back to the start of the window
+ */
+export function redditTimeFilterFor(window: TimeWindow, now: number = Date.now()): RedditTimeFilter {
+  const reach = Math.floor(now / 1000) - window.from;
+  return REDDIT_TIME_FILTERS.find(([, span]) => reach <= span)![0];
+}
+
+/**
+ * Drop filters wider than needed to cover the window (they would only repeat the covering search)
+ * and filters too narrow to reach back into it at all
+ */
+export function limitTimeFilters(filters: RedditTimeFilter[], window?: TimeWindow, now: number = Date.now()): RedditTimeFilter[] {
+  if (!window) return filters;
+
+  const order = REDDIT_TIME_FILTERS.map(([filter]) => filter);
+  const covering = order.indexOf(redditTimeFilterFor(window, now));
+  const gap = Math.floor(now / 1000) - window.to;
+  const limited = filters.filter(filter => {
+    const index = order.indexOf(filter);
+    return index <= covering && REDDIT_TIME_FILTERS[index][1] >= gap;
+  });
+  return limited.length > 0 ? limited : [order[covering]];
+}
+
+/**
+ * Exponential recency weight: 1 for brand new content, 0.5 after one half-life
+ */
+export function recencyWeight(timestamp: number, halfLifeDays?: number, now: number = Date.now()): number {
+  if (!halfLifeDays) return 1;
+  const ageDays = Math.max(0, (now / 1000 - timestamp) / (24 * 60 * 60));
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}